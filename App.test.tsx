@@ -0,0 +1,58 @@
+// @vitest-environment jsdom
+import 'fake-indexeddb/auto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from './App';
+import { historyDb } from './services/historyDb';
+
+// ~10 seconds at the mock provider's bitrate guess for audio it can't decode
+const demoFile = () => new File([new Uint8Array(160_000)], 'demo.mp3', { type: 'audio/mpeg' });
+
+beforeEach(() => {
+  localStorage.setItem('linguasync.settings', JSON.stringify({ apiMode: 'mock' }));
+  // jsdom has no object URLs, scrolling or media playback
+  URL.createObjectURL = vi.fn(() => 'blob:demo');
+  URL.revokeObjectURL = vi.fn();
+  Element.prototype.scrollIntoView = vi.fn();
+  vi.spyOn(HTMLMediaElement.prototype, 'pause').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  cleanup();
+  localStorage.clear();
+  vi.restoreAllMocks();
+});
+
+describe('offline demo flow', () => {
+  it('goes from an imported file to a transcript and into shadowing without a network request', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { container } = render(<App />);
+    expect(screen.getByText('Offline demo mode:')).toBeTruthy();
+
+    fireEvent.change(container.querySelector('input[type="file"]')!, { target: { files: [demoFile()] } });
+
+    // READY: the player below the transcript offers shadowing (the transcript has its own
+    // "Shadow" buttons for practising rewrites)
+    await screen.findAllByRole('button', { name: 'Shadow' }, { timeout: 5000 });
+    const shadowButton = screen.getAllByRole('button', { name: 'Shadow' }).find(button => !button.closest('main'))!;
+    await waitFor(async () => expect(await historyDb.getAll()).toHaveLength(1));
+    const [entry] = await historyDb.getAll();
+    expect(entry.fileName).toBe('demo.mp3');
+    expect(entry.transcription.segments.map(s => s.text)).toEqual([
+      'Welcome to the offline demo of LinguaSync.',
+      'Every sentence here is generated on your device.',
+      'Tap a word to see how definitions look.',
+    ]);
+    expect(entry.transcription.segments.every(s => s.translation.startsWith('['))).toBe(true);
+
+    fireEvent.click(shadowButton);
+    expect(await screen.findByText('Voice Shadowing')).toBeTruthy();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    vi.unstubAllGlobals();
+  });
+});
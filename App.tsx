@@ -1,12 +1,33 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { TranscriptView } from './components/TranscriptView';
 import { AudioPlayer } from './components/AudioPlayer';
 import { ShadowingView } from './components/ShadowingView';
 import { HistorySidebar } from './components/HistorySidebar';
-import { transcribeAudio } from './services/geminiService';
+import { LanguageSelect } from './components/LanguageSelect';
+import { UsageView } from './components/UsageView';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ExportDialog } from './components/ExportDialog';
+import { VideoPanel } from './components/VideoPanel';
+import { ImportQueueView } from './components/ImportQueueView';
+import { ErrorGuidance, InlineError } from './components/ErrorMessage';
+import { transcribeAudio, importSubtitles, retranslateTranscription, enrichSegments } from './services/geminiService';
 import { historyDb } from './services/historyDb';
-import { AppState, TranscriptionResponse, AudioFileMetadata, HistoryEntry } from './types';
+import { isVideoFile } from './services/audioUtils';
+import { enqueueImports, getImportItems, subscribeImports } from './services/importQueue';
+import { getSubtitleFormat } from './services/subtitles';
+import { realignTranscription } from './services/alignment';
+import { hashBlob, buildCacheKey } from './services/contentHash';
+import { AiServiceError, toAiError, isCancelled } from './services/errors';
+import { loadSettings, saveSettings } from './services/settings';
+import { loadCredentials } from './services/credentials';
+import { setProviderConfig } from './services/providers';
+import { setUsageEntry, moveEntryUsage, forgetEntryUsage, subscribeUsage, getBudgetStatus } from './services/usage';
+import { DEFAULT_NATIVE_LANGUAGE, getLanguageName, SOURCE_LANGUAGES, AUTO_DETECT } from './services/languages';
+import { AppState, TranscriptionResponse, AudioFileMetadata, HistoryEntry, ProcessingProgress, TranscriptionSegment, RewriteAlternative, AppSettings, WordDefinition, LookedUpWord } from './types';
+
+const SOURCE_LANGUAGE_OPTIONS = [{ code: AUTO_DETECT, label: 'Auto-detect' }, ...SOURCE_LANGUAGES];
+const MAX_UNDO_STEPS = 50;
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
@@ -14,8 +35,37 @@ const App: React.FC = () => {
   const [transcription, setTranscription] = useState<TranscriptionResponse | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [activeTab, setActiveTab] = useState<'original' | 'notes' | 'favorites'>('original');
-  const [errorDetails, setErrorDetails] = useState<string | null>(null);
+  const [error, setError] = useState<AiServiceError | null>(null);
+  const [actionError, setActionError] = useState<AiServiceError | null>(null); // Failed re-translation etc.; the transcript stays usable
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isImportsOpen, setIsImportsOpen] = useState(false);
+  const [importItems, setImportItems] = useState(getImportItems);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [progress, setProgress] = useState<ProcessingProgress | null>(null);
+  const [partialSegments, setPartialSegments] = useState<TranscriptionSegment[]>([]);
+  const [warningsDismissed, setWarningsDismissed] = useState(false);
+  const [currentEntryId, setCurrentEntryId] = useState<string | null>(null); // History entry backing the session
+  const [isRealigning, setIsRealigning] = useState(false);
+  const [isRetranslating, setIsRetranslating] = useState(false);
+  const [isRetryingEnrichment, setIsRetryingEnrichment] = useState(false);
+  const [settings, setSettings] = useState(loadSettings);
+  const [budgetStatus, setBudgetStatus] = useState(() => getBudgetStatus(settings.monthlyBudget, settings.modelPrices));
+  const [isEditing, setIsEditing] = useState(false);
+  const [undoStack, setUndoStack] = useState<TranscriptionResponse[]>([]); // Transcripts before each edit, newest last
+  const [audioDuration, setAudioDuration] = useState<number | undefined>(undefined);
+  // Mirrored by the video panel, which follows the audio player
+  const [playback, setPlayback] = useState({ isPlaying: false, playbackRate: 1 });
+  // Aborted whenever the session changes, so stale AI work doesn't land in the new one
+  const sessionRef = useRef(new AbortController());
+  // Latest transcript, for results that arrive after an await
+  const transcriptionRef = useRef(transcription);
+  transcriptionRef.current = transcription;
+
+  useEffect(() => {
+    if (settings.transcriptionProvider) setProviderConfig({ transcription: [settings.transcriptionProvider] });
+  }, [settings.transcriptionProvider]);
 
   useEffect(() => {
     return () => {
@@ -23,75 +73,141 @@ const App: React.FC = () => {
     };
   }, [audioFile]);
 
-  const handleFileSelected = async (file: File) => {
+  useEffect(() => {
+    const refresh = () => setBudgetStatus(getBudgetStatus(settings.monthlyBudget, settings.modelPrices));
+    refresh();
+    return subscribeUsage(refresh);
+  }, [settings.monthlyBudget, settings.modelPrices]);
+
+  useEffect(() => subscribeImports(() => setImportItems(getImportItems())), []);
+
+  /**
+   * Cancels all in-flight requests of the current session and starts a new one.
+   */
+  const restartSession = () => {
+    sessionRef.current.abort();
+    sessionRef.current = new AbortController();
+    return sessionRef.current.signal;
+  };
+
+  /**
+   * Transcribes the audio, or with `subtitles` builds the transcript from them and only translates.
+   */
+  const handleFileSelected = async (file: File, subtitles?: File) => {
+    // Same audio with the same settings was transcribed before: offer the saved result
+    let cache: Pick<HistoryEntry, 'contentHash' | 'cacheKey'> = {};
+    let replacedEntryId: string | null = null;
+    try {
+      const contentHash = await hashBlob(file);
+      const subtitlesHash = subtitles ? await hashBlob(subtitles) : undefined;
+      cache = { contentHash, cacheKey: buildCacheKey(contentHash, settings, subtitlesHash) };
+      const existing = await historyDb.findByCacheKey(cache.cacheKey!);
+      if (existing) {
+        const when = new Date(existing.date).toLocaleString();
+        if (window.confirm(`"${existing.fileName}" was already transcribed on ${when}. Open the saved transcript instead of transcribing again?`)) {
+          handleLoadHistory(existing);
+          return;
+        }
+        // Transcribing again refreshes that entry rather than adding a duplicate
+        replacedEntryId = existing.id;
+      }
+    } catch (e) {
+      console.warn("Could not check for an earlier transcription", e);
+    }
+
+    const signal = restartSession();
+    // The history entry doesn't exist yet; usage is filed under a temporary key until it's saved
+    const usageKey = `pending:${Date.now()}`;
+    setUsageEntry(usageKey);
     try {
       setAppState(AppState.PROCESSING);
-      setErrorDetails(null);
+      setError(null);
+      setActionError(null);
+      setProgress(null);
+      setPartialSegments([]);
+      setCurrentEntryId(null);
       const url = URL.createObjectURL(file);
       setAudioFile({
         name: file.name,
         size: file.size,
         type: file.type,
         url,
-        originalFile: file
+        originalFile: file,
+        isVideo: isVideoFile(file)
       });
 
-      const result = await transcribeAudio(file);
-      
+      const options = {
+        nativeLanguage: settings.nativeLanguage,
+        sourceLanguage: settings.sourceLanguage,
+        onProgress: setProgress,
+        onPartialSegments: setPartialSegments,
+        signal,
+      };
+      const result = subtitles ? await importSubtitles(file, subtitles, options) : await transcribeAudio(file, options);
+      if (signal.aborted) {
+        forgetEntryUsage(usageKey);
+        return;
+      }
+
       // Save to History DB
       try {
-          await historyDb.save(file, result);
+          let entryId = replacedEntryId;
+          if (entryId) {
+              await historyDb.update(entryId, { fileName: file.name, date: Date.now(), audioBlob: file, isVideo: isVideoFile(file), transcription: result, ...cache });
+          } else {
+              entryId = (await historyDb.save(file, result, cache)).id;
+          }
+          setCurrentEntryId(entryId);
+          moveEntryUsage(usageKey, entryId);
+          setUsageEntry(entryId);
           console.log("Saved to history");
       } catch (e) {
           console.warn("Failed to save history", e);
+          forgetEntryUsage(usageKey);
+          setUsageEntry(null);
       }
 
       setTranscription(result);
+      setIsEditing(false);
+      setUndoStack([]);
+      setWarningsDismissed(false);
+      setPartialSegments([]);
       setAppState(AppState.READY);
     } catch (err: any) {
+      forgetEntryUsage(usageKey);
+      // Cancelled from the processing screen (or superseded); the UI has already moved on
+      if (isCancelled(err) || signal.aborted) return;
+      setUsageEntry(null);
       console.error("Transcription Error:", err);
-      
-      // Robust Error Parsing
-      let msg = "An unexpected error occurred.";
-      if (err instanceof Error) {
-        msg = err.message;
-      } else if (typeof err === 'object' && err !== null) {
-        msg = JSON.stringify(err);
-      } else {
-        msg = String(err);
-      }
+      setError(toAiError(err));
+      setAppState(AppState.ERROR);
+    }
+  };
 
-      const lowerMsg = msg.toLowerCase();
-      
-      // Check for common error signatures
-      if (
-        lowerMsg.includes("api key is missing") || 
-        lowerMsg.includes("401") || 
-        lowerMsg.includes("unauthenticated") || 
-        lowerMsg.includes("invalid authentication")
-      ) {
-        msg = "API_KEY_MISSING";
-      } else if (
-        lowerMsg.includes("internal error") || 
-        lowerMsg.includes("500") || 
-        lowerMsg.includes("503") || 
-        lowerMsg.includes("overloaded")
-      ) {
-        msg = "SERVICE_UNAVAILABLE";
-      } else if (
-        lowerMsg.includes("fetch failed") || 
-        lowerMsg.includes("network") ||
-        lowerMsg.includes("failed to fetch")
-      ) {
-        msg = "NETWORK_ERROR";
-      }
+  /**
+   * Queues files for background transcription; the current session is left alone.
+   */
+  const handleFilesQueued = (files: File[], subtitles: File[] = []) => {
+    enqueueImports(files, settings, subtitles);
+    setIsImportsOpen(true);
+  };
 
-      setErrorDetails(msg);
-      setAppState(AppState.ERROR);
+  const handleOpenImported = async (entryId: string) => {
+    try {
+      const entry = await historyDb.get(entryId);
+      if (!entry) {
+        window.alert("This transcript is no longer in History.");
+        return;
+      }
+      setIsImportsOpen(false);
+      handleLoadHistory(entry);
+    } catch (e) {
+      console.error("Failed to open imported transcript", e);
     }
   };
 
   const handleLoadHistory = (entry: HistoryEntry) => {
+    restartSession();
     // Revoke previous URL if exists
     if (audioFile?.url) URL.revokeObjectURL(audioFile.url);
 
@@ -104,37 +220,254 @@ const App: React.FC = () => {
         size: entry.audioBlob.size,
         type: entry.audioBlob.type,
         url: url,
-        originalFile: entry.audioBlob as File
+        originalFile: entry.audioBlob as File,
+        isVideo: entry.isVideo
     });
     setTranscription(entry.transcription);
+    setCurrentEntryId(entry.id);
+    setUsageEntry(entry.id);
+    setIsEditing(false);
+    setUndoStack([]);
+    setWarningsDismissed(false);
     setCurrentTime(0);
-    setErrorDetails(null);
+    setError(null);
+    setActionError(null);
     setAppState(AppState.READY);
     setIsHistoryOpen(false);
   };
 
   const handleReset = () => {
+    restartSession();
     setAppState(AppState.IDLE);
     setAudioFile(null);
     setTranscription(null);
     setCurrentTime(0);
-    setErrorDetails(null);
+    setError(null);
+    setActionError(null);
+    setProgress(null);
+    setPartialSegments([]);
+    setCurrentEntryId(null);
+    setUsageEntry(null);
+    setIsEditing(false);
+    setUndoStack([]);
+  };
+
+  const handleRealign = async () => {
+    if (!transcription || !audioFile || isRealigning) return;
+    setIsRealigning(true);
+    // Another file or history entry may be opened meanwhile
+    const signal = sessionRef.current.signal;
+    try {
+      const realigned = await realignTranscription(audioFile.originalFile, transcription);
+      if (signal.aborted) return;
+      setTranscription(realigned);
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: realigned });
+    } catch (e) {
+      console.error("Re-align failed", e);
+    } finally {
+      setIsRealigning(false);
+    }
+  };
+
+  const handleSettingsChange = (changes: Partial<AppSettings>) => {
+    setSettings(saveSettings(changes));
+  };
+
+  const handleNativeLanguageChange = (nativeLanguage: string) => {
+    setSettings(saveSettings({ nativeLanguage }));
   };
 
-  const handleToggleFavorite = (index: number) => {
+  const handleSourceLanguageChange = (sourceLanguage: string) => {
+    setSettings(saveSettings({ sourceLanguage }));
+  };
+
+  const handleRetranslate = async (nativeLanguage: string) => {
+    if (!transcription || isRetranslating) return;
+    if (!window.confirm(`Re-translate this transcript into ${getLanguageName(nativeLanguage)}?`)) return;
+    setIsRetranslating(true);
+    const signal = sessionRef.current.signal;
+    try {
+      const retranslated = await retranslateTranscription(transcription, nativeLanguage, signal);
+      const latest = transcriptionRef.current;
+      if (signal.aborted || !latest) return;
+      // Edits, favorites etc. made meanwhile are kept: only segments whose text is unchanged
+      // get the new translations, and a rewrite changed meanwhile stays
+      const next = {
+        ...latest,
+        nativeLanguage,
+        segments: latest.segments.map((segment, i) => {
+          const sent = transcription.segments[i];
+          const fresh = retranslated.segments[i];
+          if (!sent || !fresh || segment.text !== sent.text) return segment;
+          const rewriteChanged = segment.idiomatic !== sent.idiomatic;
+          return {
+            ...segment,
+            translation: fresh.translation,
+            enrichmentFailed: fresh.enrichmentFailed,
+            ...(rewriteChanged ? {} : { idiomatic: fresh.idiomatic, idiomExplanation: fresh.idiomExplanation }),
+          };
+        }),
+      };
+      transcriptionRef.current = next;
+      setTranscription(next);
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: next });
+    } catch (e) {
+      if (isCancelled(e)) return;
+      console.error("Re-translation failed", e);
+      setActionError(toAiError(e));
+    } finally {
+      setIsRetranslating(false);
+    }
+  };
+
+  const handleToggleFavorite = async (index: number) => {
     if (!transcription) return;
     const newSegments = [...transcription.segments];
     newSegments[index] = {
       ...newSegments[index],
       isFavorite: !newSegments[index].isFavorite
     };
-    setTranscription({
-      ...transcription,
-      segments: newSegments
-    });
+    const updated = { ...transcription, segments: newSegments };
+    setTranscription(updated);
+    // Saved so favorites are still there for exports (e.g. Anki decks) from History
+    try {
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: updated });
+    } catch (e) {
+      console.warn("Failed to save favorite", e);
+    }
+  };
+
+  const handleWordLookedUp = async (definition: WordDefinition, segment: TranscriptionSegment) => {
+    if (!transcription) return;
+    const word = definition.word.toLowerCase();
+    const lookedUpWords: LookedUpWord[] = [
+      { ...definition, context: segment.text, start: segment.start, end: segment.end, date: Date.now() },
+      ...(transcription.lookedUpWords || []).filter(w => w.word.toLowerCase() !== word),
+    ];
+    const updated = { ...transcription, lookedUpWords };
+    setTranscription(updated);
+    try {
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: updated });
+    } catch (e) {
+      console.warn("Failed to save looked-up word", e);
+    }
+  };
+
+  const handleRenameSpeaker = async (label: string, name: string) => {
+    if (!transcription) return;
+    const renamed = { ...transcription, speakerNames: { ...transcription.speakerNames, [label]: name } };
+    setTranscription(renamed);
+    try {
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: renamed });
+    } catch (e) {
+      console.warn("Failed to save speaker name", e);
+    }
   };
 
+  const handleChooseRewrite = async (segment: TranscriptionSegment, alternative: RewriteAlternative) => {
+    if (!transcription) return;
+    const index = transcription.segments.indexOf(segment);
+    if (index === -1) return;
+    const segments = [...transcription.segments];
+    segments[index] = {
+      ...segment,
+      idiomatic: alternative.idiomatic,
+      idiomExplanation: alternative.idiomExplanation,
+      translation: alternative.translation || segment.translation,
+    };
+    const updated = { ...transcription, segments };
+    setTranscription(updated);
+    try {
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: updated });
+    } catch (e) {
+      console.warn("Failed to save the chosen rewrite", e);
+    }
+  };
+
+  const saveEditedTranscription = async (edited: TranscriptionResponse) => {
+    try {
+      if (currentEntryId) await historyDb.update(currentEntryId, { transcription: edited });
+    } catch (e) {
+      console.warn("Failed to save transcript edit", e);
+    }
+  };
+
+  /**
+   * Swaps in enrichment results for `original` segments that are still in the transcript
+   * (matched by identity, so edits made meanwhile aren't overwritten) and saves.
+   */
+  const applyEnrichedSegments = (original: TranscriptionSegment[], enriched: TranscriptionSegment[]) => {
+    const current = transcriptionRef.current;
+    if (!current) return;
+    const next = {
+      ...current,
+      segments: current.segments.map(s => {
+        const i = original.indexOf(s);
+        return i === -1 ? s : enriched[i];
+      }),
+    };
+    transcriptionRef.current = next;
+    setTranscription(next);
+    saveEditedTranscription(next);
+  };
+
+  const handleRetryEnrichment = async (targets?: TranscriptionSegment[]) => {
+    if (!transcription || isRetryingEnrichment) return;
+    const segments = targets || transcription.segments.filter(s => s.enrichmentFailed);
+    if (segments.length === 0) return;
+    setIsRetryingEnrichment(true);
+    try {
+      const enriched = await enrichSegments(
+        segments.map(s => ({ ...s, translation: s.enrichmentFailed ? '' : s.translation })),
+        { nativeLanguage: transcription.nativeLanguage, sourceLanguage: transcription.language },
+        sessionRef.current.signal
+      );
+      applyEnrichedSegments(segments, enriched);
+      const stillFailed = enriched.filter(s => s.enrichmentFailed).length;
+      if (stillFailed > 0) console.warn(`${stillFailed} segment(s) still could not be translated`);
+    } catch (e) {
+      if (isCancelled(e)) return;
+      console.error("Retrying enrichment failed", e);
+      setActionError(toAiError(e));
+    } finally {
+      setIsRetryingEnrichment(false);
+    }
+  };
+
+  const handleEditSegments = (edit: (segments: TranscriptionSegment[]) => TranscriptionSegment[]) => {
+    if (!transcription) return;
+    const segments = edit(transcription.segments);
+    if (segments === transcription.segments) return;
+
+    const edited = { ...transcription, segments };
+    setUndoStack(stack => [...stack, transcription].slice(-MAX_UNDO_STEPS));
+    setTranscription(edited);
+    saveEditedTranscription(edited);
+
+    // Edited text and split halves lost their translation/rewrite; fill them in the background
+    if (segments.some(s => !s.translation || !s.idiomatic)) {
+      enrichSegments(segments, { nativeLanguage: edited.nativeLanguage, sourceLanguage: edited.language }, sessionRef.current.signal)
+        .then(enriched => applyEnrichedSegments(segments, enriched))
+        .catch(e => {
+          if (!isCancelled(e)) console.warn("Could not translate the edited segments", e);
+        });
+    }
+  };
+
+  const handleUndo = () => {
+    if (undoStack.length === 0) return;
+    const previous = undoStack[undoStack.length - 1];
+    setUndoStack(undoStack.slice(0, -1));
+    setTranscription(previous);
+    saveEditedTranscription(previous);
+  };
+
+  const unenrichedCount = transcription?.segments.filter(s => s.enrichmentFailed).length || 0;
+
   // Filter segments for the Favorites tab
+  const pendingImports = importItems.filter(item => item.status === 'queued' || item.status === 'processing').length;
+  const failedImports = importItems.filter(item => item.status === 'failed').length;
+
   const displayedSegments = activeTab === 'favorites' && transcription
     ? transcription.segments.filter(s => s.isFavorite)
     : transcription?.segments || [];
@@ -151,6 +484,20 @@ const App: React.FC = () => {
             </button>
             <h1 className="text-lg font-bold text-slate-800">LinguaSync</h1>
             <div className="flex gap-2">
+                {importItems.length > 0 && (
+                    <button
+                        onClick={() => setIsImportsOpen(true)}
+                        className="p-2 text-slate-400 hover:text-blue-600 transition-colors relative"
+                        title={`Imports: ${pendingImports} in progress${failedImports ? `, ${failedImports} failed` : ''}`}
+                    >
+                        <svg className={`w-6 h-6 ${pendingImports ? 'animate-pulse text-blue-500' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                        {(pendingImports > 0 || failedImports > 0) && (
+                            <span className={`absolute top-0.5 right-0.5 min-w-[1rem] h-4 px-1 rounded-full text-[10px] font-bold leading-4 text-white ring-2 ring-white ${failedImports ? 'bg-red-500' : 'bg-blue-600'}`}>
+                                {pendingImports || failedImports}
+                            </span>
+                        )}
+                    </button>
+                )}
                 <button 
                     onClick={() => setIsHistoryOpen(true)}
                     className="p-2 text-slate-400 hover:text-blue-600 transition-colors relative"
@@ -158,7 +505,17 @@ const App: React.FC = () => {
                 >
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                 </button>
-                <button className="p-2 text-slate-400 hover:text-slate-800">
+                <button
+                    onClick={() => setIsUsageOpen(true)}
+                    className="p-2 text-slate-400 hover:text-blue-600 transition-colors relative"
+                    title={budgetStatus.isNear ? 'API usage: monthly budget nearly used' : 'API usage'}
+                >
+                    <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" /></svg>
+                    {budgetStatus.isNear && (
+                        <span className={`absolute top-1.5 right-1.5 w-2.5 h-2.5 rounded-full ring-2 ring-white ${budgetStatus.isOver ? 'bg-red-500' : 'bg-amber-500'}`}></span>
+                    )}
+                </button>
+                <button onClick={() => setIsSettingsOpen(true)} className="p-2 text-slate-400 hover:text-slate-800" title="Settings">
                     <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
                 </button>
             </div>
@@ -176,24 +533,166 @@ const App: React.FC = () => {
                         {tab}
                     </button>
                 ))}
+                <LanguageSelect
+                    className="ml-auto mb-2"
+                    value={transcription?.nativeLanguage || DEFAULT_NATIVE_LANGUAGE}
+                    onChange={handleRetranslate}
+                    disabled={isRetranslating}
+                />
+                {isRetranslating && <span className="pb-2 text-xs text-slate-400 animate-pulse">Translating...</span>}
+                {activeTab === 'original' && (
+                    <button
+                        onClick={() => setIsEditing(!isEditing)}
+                        className={`pb-2 text-xs font-semibold ${isEditing ? 'text-blue-600' : 'text-slate-400 hover:text-blue-600'}`}
+                    >
+                        {isEditing ? 'Done' : 'Edit'}
+                    </button>
+                )}
+                {isEditing && activeTab === 'original' && (
+                    <button
+                        onClick={handleUndo}
+                        disabled={undoStack.length === 0}
+                        className="pb-2 text-xs font-semibold text-slate-400 hover:text-blue-600 disabled:opacity-40"
+                        title="Undo last edit"
+                    >
+                        Undo
+                    </button>
+                )}
+                {currentEntryId && !isEditing && (
+                    <button
+                        onClick={handleRealign}
+                        disabled={isRealigning}
+                        className="pb-2 text-xs font-semibold text-slate-400 hover:text-blue-600 disabled:opacity-50"
+                        title="Snap sentence timings to pauses in the audio"
+                    >
+                        {isRealigning ? 'Aligning...' : 'Re-align'}
+                    </button>
+                )}
+                {!isEditing && (
+                    <button
+                        onClick={() => setIsExportOpen(true)}
+                        className="pb-2 text-xs font-semibold text-slate-400 hover:text-blue-600"
+                        title="Download as subtitles, study sheet or JSON"
+                    >
+                        Export
+                    </button>
+                )}
             </div>
         )}
+
+        {/* Validation warnings (the transcript is still usable) */}
+        {appState === AppState.READY && !!transcription?.warnings?.length && !warningsDismissed && (
+            <div className="mt-2 mb-1 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-800 flex items-start gap-2">
+                <svg className="w-4 h-4 shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
+                <div className="flex-1 min-w-0">
+                    <p className="font-bold mb-0.5">Some issues in the AI response were fixed</p>
+                    <ul className="list-disc list-inside space-y-0.5">
+                        {transcription.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                    </ul>
+                </div>
+                <button onClick={() => setWarningsDismissed(true)} className="text-amber-400 hover:text-amber-700" title="Dismiss">
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+            </div>
+        )}
+
+        {/* Segments the enrichment phase couldn't translate */}
+        {appState === AppState.READY && unenrichedCount > 0 && (
+            <div className="mt-2 mb-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-xs text-slate-600 flex items-center gap-2">
+                <span className="flex-1">
+                    {unenrichedCount} {unenrichedCount === 1 ? 'segment has' : 'segments have'} no translation yet.
+                </span>
+                <button
+                    onClick={() => handleRetryEnrichment()}
+                    disabled={isRetryingEnrichment}
+                    className="font-bold text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                    {isRetryingEnrichment ? 'Translating...' : 'Retry'}
+                </button>
+            </div>
+        )}
+
+        {appState === AppState.READY && actionError && (
+            <InlineError error={actionError} onDismiss={() => setActionError(null)} className="mt-2 mb-1 shadow-none" />
+        )}
       </header>
 
+      {appState === AppState.READY && transcription && audioFile?.isVideo && (
+        <VideoPanel
+            key={audioFile.url}
+            videoUrl={audioFile.url}
+            currentTime={currentTime}
+            isPlaying={playback.isPlaying}
+            playbackRate={playback.playbackRate}
+            segments={transcription.segments}
+        />
+      )}
+
       {/* Main Content */}
       <main className="flex-1 overflow-hidden relative bg-slate-50">
         
         {appState === AppState.IDLE && (
           <div className="h-full flex flex-col justify-center px-6">
-            <FileUpload onFileSelected={handleFileSelected} appState={appState} />
+            {settings.apiMode === 'mock' && (
+                <button
+                    onClick={() => setIsSettingsOpen(true)}
+                    className="mb-4 bg-blue-50 border border-blue-200 rounded-lg px-3 py-2 text-xs text-blue-800 text-left hover:bg-blue-100"
+                >
+                    <span className="font-bold">Offline demo mode:</span> transcripts, voices and scores are generated locally and aren't real.
+                </button>
+            )}
+            {settings.apiMode === 'direct' && !loadCredentials().geminiApiKey.trim() && (
+                <button
+                    onClick={() => setIsSettingsOpen(true)}
+                    className="mb-4 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 text-xs text-amber-800 text-left hover:bg-amber-100"
+                >
+                    <span className="font-bold">Add your Gemini API key</span> in Settings to start transcribing.
+                </button>
+            )}
+            <FileUpload onFileSelected={handleFileSelected} onFilesQueued={handleFilesQueued} appState={appState} />
+            <div className="flex flex-wrap items-center justify-center gap-2 mt-4 text-xs text-slate-500">
+                <span>Learning</span>
+                <LanguageSelect value={settings.sourceLanguage} options={SOURCE_LANGUAGE_OPTIONS} onChange={handleSourceLanguageChange} />
+                <span>· Translate into</span>
+                <LanguageSelect value={settings.nativeLanguage} onChange={handleNativeLanguageChange} />
+            </div>
           </div>
         )}
 
         {appState === AppState.PROCESSING && (
-          <div className="h-full flex flex-col items-center justify-center space-y-4 px-6">
-            <div className="w-12 h-12 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
-            <p className="text-slate-500 font-medium">Analyzing audio...</p>
-            <p className="text-xs text-slate-400">This may take up to 30 seconds.</p>
+          <div className="h-full flex flex-col">
+            <div className={`flex flex-col items-center justify-center space-y-4 px-6 ${partialSegments.length > 0 ? 'py-4 bg-white border-b border-slate-100 shrink-0' : 'flex-1'}`}>
+              {partialSegments.length === 0 && (
+                <div className="w-12 h-12 border-4 border-blue-100 border-t-blue-600 rounded-full animate-spin"></div>
+              )}
+              <p className="text-slate-500 font-medium">{progress?.message || 'Analyzing audio...'}</p>
+              <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-600 rounded-full transition-all duration-500"
+                  style={{ width: `${Math.round((progress?.progress || 0) * 100)}%` }}
+                ></div>
+              </div>
+              <p className="text-xs text-slate-400">
+                {progress?.chunkCount
+                  ? `Part ${(progress.chunkIndex || 0) + 1} of ${progress.chunkCount} · ${Math.round(progress.progress * 100)}%`
+                  : `${Math.round((progress?.progress || 0) * 100)}%`}
+              </p>
+              <button onClick={handleReset} className="px-4 py-1.5 rounded-full text-xs font-bold bg-slate-100 text-slate-500 hover:bg-slate-200 hover:text-slate-700">
+                Cancel
+              </button>
+            </div>
+
+            {/* Already transcribed segments (read-only until processing finishes) */}
+            {partialSegments.length > 0 && (
+              <div className="flex-1 min-h-0">
+                <TranscriptView
+                  segments={partialSegments}
+                  currentTime={currentTime}
+                  onSegmentClick={(time) => setCurrentTime(time)}
+                  readOnly
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -203,48 +702,7 @@ const App: React.FC = () => {
                <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" /></svg>
             </div>
             
-            {errorDetails === "API_KEY_MISSING" ? (
-                <div>
-                    <h3 className="text-lg font-bold text-slate-800">Authentication Error</h3>
-                    <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-                        The API request was rejected (401). <br/>
-                        Your API Key is missing or invalid.
-                    </p>
-                    <div className="text-xs text-left text-slate-600 bg-slate-100 p-4 rounded-lg mt-3 border border-slate-200">
-                        <p className="font-bold mb-2">Troubleshooting:</p>
-                        <ol className="space-y-1 list-decimal list-inside">
-                            <li>Check <b>.env</b> file or Cloud environment variables.</li>
-                            <li>Ensure <b>API_KEY</b> is correct and has Gemini API enabled.</li>
-                            <li>If you just added the key, <b>restart your dev server</b> or redeploy.</li>
-                        </ol>
-                    </div>
-                </div>
-            ) : errorDetails === "SERVICE_UNAVAILABLE" ? (
-                <div>
-                    <h3 className="text-lg font-bold text-slate-800">AI Service Busy</h3>
-                    <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-                        Google's AI service is currently overloaded (500 Error).<br/>
-                        We automatically retried 3 times but it failed.
-                    </p>
-                    <p className="text-xs text-slate-400 mt-2">
-                        Please wait 1 minute and try again.
-                    </p>
-                </div>
-            ) : errorDetails === "NETWORK_ERROR" ? (
-                <div>
-                    <h3 className="text-lg font-bold text-slate-800">Network Error</h3>
-                    <p className="text-slate-500 text-sm mt-2 leading-relaxed">
-                        Cannot connect to Google's servers. Please check your internet connection.
-                    </p>
-                </div>
-            ) : (
-                <div>
-                    <h3 className="text-lg font-bold text-slate-800">Analysis Failed</h3>
-                    <p className="text-slate-500 text-sm mt-2 leading-relaxed break-words">
-                        {errorDetails || "An unknown error occurred."}
-                    </p>
-                </div>
-            )}
+            {error && <ErrorGuidance error={error} />}
 
             <button onClick={handleReset} className="px-6 py-2 bg-slate-800 text-white rounded-lg font-medium hover:bg-slate-700 transition shadow-lg shadow-slate-200 w-full">
                 Try Again
@@ -269,10 +727,22 @@ const App: React.FC = () => {
                     currentTime={currentTime}
                     onSegmentClick={(time) => setCurrentTime(time)}
                     meta={transcription.meta}
+                    nativeLanguage={transcription.nativeLanguage || DEFAULT_NATIVE_LANGUAGE}
+                    language={transcription.language}
+                    speakerNames={transcription.speakerNames}
+                    onRenameSpeaker={handleRenameSpeaker}
+                    contextSegments={transcription.segments}
+                    onChooseRewrite={handleChooseRewrite}
+                    isEditing={isEditing && activeTab === 'original'}
+                    audioUrl={audioFile.url}
+                    duration={audioDuration}
+                    onEditSegments={handleEditSegments}
+                    onRetryEnrichment={isRetryingEnrichment ? undefined : (segment) => handleRetryEnrichment([segment])}
                     onToggleFavorite={(segment) => {
                         const idx = transcription.segments.indexOf(segment);
                         if (idx !== -1) handleToggleFavorite(idx);
                     }}
+                    onWordLookedUp={handleWordLookedUp}
                 />
               )
            )
@@ -286,20 +756,44 @@ const App: React.FC = () => {
         onSelectEntry={handleLoadHistory}
       />
 
+      {isSettingsOpen && (
+        <SettingsPanel settings={settings} onChangeSettings={handleSettingsChange} onClose={() => setIsSettingsOpen(false)} />
+      )}
+
+      {isImportsOpen && (
+        <ImportQueueView
+            onAddFiles={(files) => enqueueImports(files.filter(f => !getSubtitleFormat(f.name)), settings, files.filter(f => getSubtitleFormat(f.name)))}
+            onOpenEntry={handleOpenImported}
+            onClose={() => setIsImportsOpen(false)}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsageView settings={settings} onChangeSettings={handleSettingsChange} onClose={() => setIsUsageOpen(false)} />
+      )}
+
+      {isExportOpen && transcription && audioFile && (
+        <ExportDialog transcription={transcription} fileName={audioFile.name} audioBlob={audioFile.originalFile} onClose={() => setIsExportOpen(false)} />
+      )}
+
       {/* Footer / Shadowing Overlay */}
       {appState === AppState.SHADOWING && transcription && (
         <ShadowingView 
             segments={transcription.segments} 
+            speakerNames={transcription.speakerNames}
             onClose={() => setAppState(AppState.READY)}
         />
       )}
 
-      {appState === AppState.READY && audioFile && (
+      {/* Kept mounted across PROCESSING -> READY so playback of partial results isn't interrupted */}
+      {(appState === AppState.READY || (appState === AppState.PROCESSING && partialSegments.length > 0)) && audioFile && (
         <AudioPlayer 
             audioUrl={audioFile.url}
             currentTime={currentTime}
             onTimeUpdate={setCurrentTime}
-            onEnterShadowing={() => setAppState(AppState.SHADOWING)}
+            onDurationChange={setAudioDuration}
+            onPlaybackChange={(isPlaying, playbackRate) => setPlayback({ isPlaying, playbackRate })}
+            onEnterShadowing={appState === AppState.READY ? () => setAppState(AppState.SHADOWING) : undefined}
         />
       )}
 
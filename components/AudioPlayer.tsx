@@ -5,7 +5,8 @@ interface AudioPlayerProps {
   currentTime: number;
   onTimeUpdate: (time: number) => void;
   onDurationChange?: (duration: number) => void;
-  onEnterShadowing: () => void;
+  onEnterShadowing?: () => void;
+  onPlaybackChange?: (isPlaying: boolean, playbackRate: number) => void; // For the video panel
 }
 
 export const AudioPlayer: React.FC<AudioPlayerProps> = ({ 
@@ -13,7 +14,8 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   currentTime, 
   onTimeUpdate,
   onDurationChange,
-  onEnterShadowing
+  onEnterShadowing,
+  onPlaybackChange
 }) => {
   const audioRef = useRef<HTMLAudioElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -26,6 +28,10 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
     }
   }, [currentTime]);
 
+  useEffect(() => {
+    onPlaybackChange?.(isPlaying, playbackRate);
+  }, [isPlaying, playbackRate]);
+
   const togglePlay = () => {
     if (audioRef.current) {
       if (isPlaying) {
@@ -71,6 +77,8 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
               if (onDurationChange) onDurationChange(e.currentTarget.duration);
           }}
           onEnded={() => setIsPlaying(false)}
+          // Also catches pauses we didn't ask for (e.g. a new source)
+          onPause={() => setIsPlaying(false)}
         />
       )}
       
@@ -84,10 +92,12 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
             <button className="text-xs font-semibold text-slate-400 hover:text-blue-600 px-2">
                 Seq Play
             </button>
+            {onEnterShadowing && (
             <button onClick={onEnterShadowing} className="flex items-center gap-1 text-xs font-bold text-white bg-blue-600 px-3 py-1.5 rounded-full shadow-md hover:bg-blue-700 active:scale-95 transition">
                 <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
                 Shadow
             </button>
+            )}
          </div>
       </div>
 
@@ -0,0 +1,116 @@
+import React from 'react';
+import { AiServiceError, AiErrorKind } from '../services/errors';
+
+interface ErrorCopy {
+  title: string;
+  description: string;
+  tips: string[];
+}
+
+const ERROR_COPY: Record<AiErrorKind, ErrorCopy> = {
+  api_key: {
+    title: 'Authentication Error',
+    description: 'The API request was rejected. Your API key is missing or invalid.',
+    tips: [
+      'Open Settings (☰) and enter your API key.',
+      'Use "Test connection" to check the key and the chosen models.',
+      'Make sure the key has the Gemini API enabled.',
+    ],
+  },
+  rate_limit: {
+    title: 'Too Many Requests',
+    description: 'The AI service is rate limiting this key. We already waited and retried.',
+    tips: ['Wait a minute, then try again.', 'Long files use several requests; try a shorter clip.'],
+  },
+  quota: {
+    title: 'Quota Exhausted',
+    description: 'The daily quota or account balance for this API key has run out.',
+    tips: ['Check usage and billing in your provider console.', 'Try again after the quota resets, or use another key.'],
+  },
+  unsupported_format: {
+    title: 'Unsupported Audio Format',
+    description: 'The AI service could not read this file type.',
+    tips: ['Convert the file to MP3, WAV or M4A and upload it again.', 'For videos, MP4 (H.264/AAC) and WebM work in every browser.'],
+  },
+  payload_too_large: {
+    title: 'File Too Large',
+    description: 'The request was larger than the AI service accepts.',
+    tips: ['Trim or compress the recording (e.g. a lower bitrate MP3).', 'Split very long recordings into parts.', 'For long videos, extract the audio track (e.g. to M4A) and import that.'],
+  },
+  safety: {
+    title: 'Blocked by Safety Filters',
+    description: 'The AI service refused to process this content.',
+    tips: ['Try a different recording or a shorter excerpt.'],
+  },
+  service_unavailable: {
+    title: 'AI Service Busy',
+    description: 'The AI service is overloaded or having problems. We retried automatically but it still failed.',
+    tips: ['Please wait 1 minute and try again.'],
+  },
+  network: {
+    title: 'Network Error',
+    description: "Cannot connect to the AI service's servers.",
+    tips: ['Check your internet connection.', 'Disable VPNs or ad blockers that may block the API.'],
+  },
+  invalid_response: {
+    title: 'Unreadable AI Response',
+    description: 'The AI answered, but not in a format we could use, even after retrying.',
+    tips: ['Try again; the response usually differs each time.'],
+  },
+  cancelled: {
+    title: 'Cancelled',
+    description: 'The request was cancelled.',
+    tips: [],
+  },
+  unknown: {
+    title: 'Analysis Failed',
+    description: 'An unexpected error occurred.',
+    tips: [],
+  },
+};
+
+const retryHint = (error: AiServiceError) =>
+  error.retryAfterMs ? `The service asked us to wait ${Math.ceil(error.retryAfterMs / 1000)}s before retrying.` : null;
+
+/**
+ * Full explanation with recovery steps, for the ERROR screen.
+ */
+export const ErrorGuidance: React.FC<{ error: AiServiceError }> = ({ error }) => {
+  const copy = ERROR_COPY[error.kind];
+  return (
+    <div>
+      <h3 className="text-lg font-bold text-slate-800">{copy.title}</h3>
+      <p className="text-slate-500 text-sm mt-2 leading-relaxed">{copy.description}</p>
+      {retryHint(error) && <p className="text-xs text-slate-400 mt-2">{retryHint(error)}</p>}
+      {copy.tips.length > 0 && (
+        <div className="text-xs text-left text-slate-600 bg-slate-100 p-4 rounded-lg mt-3 border border-slate-200">
+          <p className="font-bold mb-2">Troubleshooting:</p>
+          <ol className="space-y-1 list-decimal list-inside">
+            {copy.tips.map(tip => <li key={tip}>{tip}</li>)}
+          </ol>
+        </div>
+      )}
+      <p className="text-[10px] text-slate-400 mt-3 break-words">
+        {error.provider ? `${error.provider}: ` : ''}{error.message}
+      </p>
+    </div>
+  );
+};
+
+/**
+ * Compact, dismissible error for actions inside a view (definitions, TTS, scoring).
+ */
+export const InlineError: React.FC<{ error: AiServiceError; onDismiss: () => void; className?: string }> = ({ error, onDismiss, className = "" }) => {
+  const copy = ERROR_COPY[error.kind];
+  return (
+    <div className={`bg-red-50 border border-red-200 rounded-lg px-3 py-2 text-xs text-red-700 flex items-start gap-2 shadow-md ${className}`}>
+      <div className="flex-1 min-w-0">
+        <p className="font-bold">{error.kind === 'unknown' ? 'Something went wrong' : copy.title}</p>
+        <p className="text-red-600/80">{copy.tips[0] || error.message}</p>
+      </div>
+      <button onClick={onDismiss} className="text-red-300 hover:text-red-600" title="Dismiss">
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { TranscriptionResponse } from '../types';
+import {
+  ExportFormat,
+  ExportLayer,
+  ExportOptions,
+  EXPORT_FORMATS,
+  EXPORT_LAYER_LABELS,
+  DEFAULT_EXPORT_OPTIONS,
+  exportTranscript,
+  exportFileName,
+  downloadFile,
+} from '../services/transcriptExport';
+import {
+  AnkiNoteType,
+  ANKI_NOTE_TYPES,
+  DEFAULT_ANKI_NOTE_TYPES,
+  buildAnkiPackage,
+  getAnkiSources,
+  defaultDeckName,
+  ankiFileName,
+} from '../services/ankiExport';
+
+interface ExportDialogProps {
+  transcription: TranscriptionResponse;
+  fileName: string; // Source audio name; the export is named after it
+  audioBlob?: Blob; // Needed for Anki decks, whose cards carry audio clips
+  onClose: () => void;
+}
+
+type DialogFormat = ExportFormat | 'anki';
+
+// Kept for the session so repeated exports don't need the same clicks
+let lastFormat: DialogFormat = 'srt';
+let lastOptions: ExportOptions = DEFAULT_EXPORT_OPTIONS;
+let lastNoteTypes: AnkiNoteType[] = DEFAULT_ANKI_NOTE_TYPES;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ transcription, fileName, audioBlob, onClose }) => {
+  const [format, setFormat] = useState<DialogFormat>(lastFormat === 'anki' && !audioBlob ? 'srt' : lastFormat);
+  const [options, setOptions] = useState<ExportOptions>(lastOptions);
+  const [noteTypes, setNoteTypes] = useState<AnkiNoteType[]>(lastNoteTypes);
+  const [deckName, setDeckName] = useState(() => defaultDeckName(fileName.replace(/\.[^.]+$/, '')));
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [ankiError, setAnkiError] = useState<string | null>(null);
+
+  const favoriteCount = transcription.segments.filter(s => s.isFavorite).length;
+  const ankiSources = getAnkiSources(transcription, Object.keys(ANKI_NOTE_TYPES) as AnkiNoteType[]);
+  const ankiNoteCount = noteTypes.reduce((sum, type) => sum + ankiSources[type].length, 0);
+  const isAnki = format === 'anki';
+  const usesLayers = format !== 'json';
+  const canExport = isAnki
+    ? ankiNoteCount > 0 && !isBuilding
+    : (!usesLayers || options.layers.length > 0) && (!options.favoritesOnly || favoriteCount > 0);
+  const downloadName = format === 'anki' ? ankiFileName(fileName) : exportFileName(fileName, format);
+
+  const toggleLayer = (layer: ExportLayer) => {
+    setOptions(prev => ({
+      ...prev,
+      layers: prev.layers.includes(layer) ? prev.layers.filter(l => l !== layer) : [...prev.layers, layer],
+    }));
+  };
+
+  const toggleNoteType = (type: AnkiNoteType) => {
+    setNoteTypes(prev => prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]);
+  };
+
+  const handleAnkiExport = async () => {
+    if (!audioBlob) return;
+    lastFormat = format;
+    lastNoteTypes = noteTypes;
+    setIsBuilding(true);
+    setAnkiError(null);
+    try {
+      const deck = await buildAnkiPackage(transcription, audioBlob, { noteTypes, deckName });
+      downloadFile(deck.data, ankiFileName(fileName), 'application/octet-stream');
+      onClose();
+    } catch (e) {
+      console.error("Anki export failed", e);
+      setAnkiError("Couldn't build the deck. The audio may not be decodable in this browser.");
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (format === 'anki') return handleAnkiExport();
+    lastFormat = format;
+    lastOptions = options;
+    const title = fileName.replace(/\.[^.]+$/, '');
+    const content = exportTranscript(transcription, format, options, title);
+    downloadFile(content, exportFileName(fileName, format), `${EXPORT_FORMATS[format].mimeType};charset=utf-8`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose}></div>
+      <div className="bg-white w-full sm:w-96 max-h-[85vh] overflow-y-auto p-6 rounded-t-2xl sm:rounded-2xl shadow-2xl relative animate-fade-in-up">
+        <h4 className="text-lg font-bold text-slate-800 mb-1">Export</h4>
+        <p className="text-sm text-slate-500 mb-4 pr-6 truncate">{fileName}</p>
+
+        <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Format</span>
+        <div className="mt-1 mb-4 space-y-1">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(id => (
+            <label
+              key={id}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer ${format === id ? 'border-blue-300 bg-blue-50' : 'border-slate-100 hover:bg-slate-50'}`}
+            >
+              <input type="radio" name="export-format" checked={format === id} onChange={() => setFormat(id)} className="accent-blue-600" />
+              <span className="text-sm font-semibold text-slate-700 w-20">{EXPORT_FORMATS[id].label}</span>
+              <span className="text-xs text-slate-400">{EXPORT_FORMATS[id].description}</span>
+            </label>
+          ))}
+          {audioBlob && (
+            <label
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer ${isAnki ? 'border-blue-300 bg-blue-50' : 'border-slate-100 hover:bg-slate-50'}`}
+            >
+              <input type="radio" name="export-format" checked={isAnki} onChange={() => setFormat('anki')} className="accent-blue-600" />
+              <span className="text-sm font-semibold text-slate-700 w-20">Anki</span>
+              <span className="text-xs text-slate-400">Flashcards with audio clips</span>
+            </label>
+          )}
+        </div>
+
+        {isAnki ? (
+          <>
+            <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Note types</span>
+            <div className="mt-1 mb-3 space-y-1">
+              {(Object.keys(ANKI_NOTE_TYPES) as AnkiNoteType[]).map(type => (
+                <label key={type} className="flex items-start gap-2 text-sm text-slate-600 py-1">
+                  <input
+                    type="checkbox"
+                    checked={noteTypes.includes(type)}
+                    onChange={() => toggleNoteType(type)}
+                    className="accent-blue-600 mt-1"
+                  />
+                  <span>
+                    {ANKI_NOTE_TYPES[type].label} <span className="text-xs text-slate-400">({ankiSources[type].length})</span>
+                    <span className="block text-xs text-slate-400">{ANKI_NOTE_TYPES[type].description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            <label className="block text-[10px] uppercase font-bold text-slate-400 tracking-wider">
+              Deck
+              <input
+                type="text"
+                value={deckName}
+                onChange={(e) => setDeckName(e.target.value)}
+                className="mt-1 w-full px-3 py-2 rounded-lg border border-slate-200 text-sm font-normal normal-case tracking-normal text-slate-700 focus:outline-none focus:border-blue-400"
+              />
+            </label>
+            {ankiNoteCount === 0 && (
+              <p className="text-xs text-slate-400 mt-2">Star sentences or tap words to look them up, then export them here.</p>
+            )}
+            {ankiError && <p className="text-xs text-red-500 mt-2">{ankiError}</p>}
+          </>
+        ) : (
+          <>
+            <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Include</span>
+            <div className={`mt-1 mb-1 grid grid-cols-2 gap-1 ${usesLayers ? '' : 'opacity-40'}`}>
+              {(Object.keys(EXPORT_LAYER_LABELS) as ExportLayer[]).map(layer => (
+                <label key={layer} className="flex items-center gap-2 text-sm text-slate-600 py-1">
+                  <input
+                    type="checkbox"
+                    checked={options.layers.includes(layer)}
+                    onChange={() => toggleLayer(layer)}
+                    disabled={!usesLayers}
+                    className="accent-blue-600"
+                  />
+                  {EXPORT_LAYER_LABELS[layer]}
+                </label>
+              ))}
+            </div>
+            {!usesLayers && <p className="text-xs text-slate-400 mb-1">JSON always contains every field.</p>}
+
+            <label className="flex items-center gap-2 text-sm text-slate-600 py-1 mt-2 border-t border-slate-100 pt-3">
+              <input
+                type="checkbox"
+                checked={options.favoritesOnly}
+                onChange={(e) => setOptions(prev => ({ ...prev, favoritesOnly: e.target.checked }))}
+                className="accent-blue-600"
+              />
+              Favorites only <span className="text-xs text-slate-400">({favoriteCount})</span>
+            </label>
+          </>
+        )}
+
+        <button
+          onClick={handleExport}
+          disabled={!canExport}
+          className="w-full mt-4 py-2.5 px-3 truncate rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 transition"
+        >
+          {isBuilding ? 'Building deck...' : `Download ${downloadName}`}
+        </button>
+
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-300 hover:text-slate-500">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,41 +1,68 @@
 import React, { useCallback, useState } from 'react';
 import { AppState } from '../types';
+import { getSubtitleFormat } from '../services/subtitles';
+import { isVideoFile } from '../services/audioUtils';
 
 interface FileUploadProps {
-  onFileSelected: (file: File) => void;
+  // `subtitles`: existing SRT/VTT/LRC to use instead of transcribing
+  onFileSelected: (file: File, subtitles?: File) => void;
+  // Several audio/video files at once go to the background import queue instead
+  onFilesQueued?: (files: File[], subtitles: File[]) => void;
   appState: AppState;
 }
 
-export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState }) => {
+const isMediaFile = (file: File) => {
+  if (isVideoFile(file)) return true;
+  const fileName = file.name.toLowerCase();
+
+  // 1. Check Extension (Case-insensitive via toLowerCase above)
+  // Added common mobile recording formats
+  const hasValidExtension = /\.(mp3|wav|flac|m4a|aac|ogg|oga|weba|apk\.1)$/.test(fileName);
+
+  // 2. Check MIME type (Relaxed for mobile)
+  // Mobile browsers often report "" or "application/octet-stream", so we rely heavily on extension if MIME is vague.
+  const validAudioPrefixes = ['audio/', 'video/mp4', 'video/webm', 'application/ogg', 'application/octet-stream'];
+  const hasValidMime = validAudioPrefixes.some(prefix => file.type.startsWith(prefix)) || file.type === "";
+
+  return hasValidExtension || (hasValidMime && file.type !== "" && file.type !== "application/octet-stream");
+};
+
+export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, onFilesQueued, appState }) => {
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  // Picked before (or together with) the audio
+  const [subtitleFile, setSubtitleFile] = useState<File | null>(null);
 
   const handleInputChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const files = Array.from(event.target.files || []);
+    event.target.value = ''; // Lets the same file be picked again
     setErrorMsg(null);
+    if (files.length === 0) return;
 
-    if (file) {
-      const fileName = file.name.toLowerCase();
-      
-      // 1. Check Extension (Case-insensitive via toLowerCase above)
-      // Added common mobile recording formats
-      const hasValidExtension = /\.(mp3|wav|flac|m4a|aac|ogg|oga|weba|apk\.1)$/.test(fileName);
-      
-      // 2. Check MIME type (Relaxed for mobile)
-      // Mobile browsers often report "" or "application/octet-stream", so we rely heavily on extension if MIME is vague.
-      const validAudioPrefixes = ['audio/', 'video/mp4', 'video/webm', 'application/ogg', 'application/octet-stream'];
-      const hasValidMime = validAudioPrefixes.some(prefix => file.type.startsWith(prefix)) || file.type === "";
+    const subtitleFiles = files.filter(f => getSubtitleFormat(f.name));
+    const otherFiles = files.filter(f => !getSubtitleFormat(f.name));
+    const mediaFiles = otherFiles.filter(isMediaFile);
+    if (onFilesQueued && mediaFiles.length > 1) {
+      const rejected = otherFiles.length - mediaFiles.length;
+      if (rejected > 0) setErrorMsg(`${rejected} unsupported file${rejected > 1 ? 's were' : ' was'} skipped.`);
+      onFilesQueued(mediaFiles, subtitleFiles);
+      return;
+    }
+
+    const subtitles = subtitleFiles[0] || subtitleFile;
+    const file = otherFiles[0];
+    if (subtitles) setSubtitleFile(subtitles);
+    if (!file) return;
 
-      if (hasValidExtension || (hasValidMime && file.type !== "" && file.type !== "application/octet-stream")) {
-        onFileSelected(file);
-      } else {
-        console.warn("Rejected file:", file.name, file.type);
-        setErrorMsg(`Unsupported file type: ${file.name} (${file.type || 'unknown'}). Please use MP3, M4A, or WAV.`);
-      }
+    if (isMediaFile(file)) {
+      onFileSelected(file, subtitles || undefined);
+    } else {
+      console.warn("Rejected file:", file.name, file.type);
+      setErrorMsg(`Unsupported file type: ${file.name} (${file.type || 'unknown'}). Please use MP3, M4A, WAV, MP4 or WebM.`);
     }
-  }, [onFileSelected]);
+  }, [onFileSelected, onFilesQueued, subtitleFile]);
 
   return (
-    <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-slate-300 rounded-xl bg-slate-50 hover:bg-slate-100 transition-colors h-64">
+    <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-slate-300 rounded-xl bg-slate-50 hover:bg-slate-100 transition-colors min-h-[16rem]">
       <div className="text-center space-y-4">
         <div className="bg-blue-100 p-4 rounded-full inline-block">
           <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -43,8 +70,12 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState
           </svg>
         </div>
         <div>
-          <h3 className="text-lg font-semibold text-slate-800">Import Audio</h3>
-          <p className="text-sm text-slate-500 mt-1">Supports MP3, WAV, FLAC, M4A</p>
+          <h3 className="text-lg font-semibold text-slate-800">Import Audio or Video</h3>
+          <p className="text-sm text-slate-500 mt-1">Supports MP3, WAV, FLAC, M4A, MP4, WebM</p>
+          <p className="text-xs text-slate-400 mt-1">
+            {subtitleFile ? 'Subtitles attached: only translations will be generated' : 'Have subtitles? Attach them to skip transcription'}
+          </p>
+          {onFilesQueued && <p className="text-xs text-slate-400 mt-1">Select several files to import them in the background</p>}
         </div>
         
         <label className={`cursor-pointer inline-flex items-center px-6 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white ${appState === AppState.PROCESSING ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'} focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500`}>
@@ -52,12 +83,33 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileSelected, appState
           <input 
             type="file" 
             className="hidden" 
-            accept="audio/*,.mp3,.wav,.flac,.m4a,.aac,.ogg,.oga"
+            accept="audio/*,video/*,.mp3,.wav,.flac,.m4a,.aac,.ogg,.oga,.mp4,.m4v,.mov,.webm,.mkv,.srt,.vtt,.lrc"
+            multiple
             onChange={handleInputChange}
             disabled={appState === AppState.PROCESSING}
           />
         </label>
 
+        <div className="flex items-center justify-center gap-2 text-xs">
+          {subtitleFile ? (
+            <span className="inline-flex items-center gap-1 bg-white border border-slate-200 rounded-full pl-3 pr-1 py-0.5 text-slate-600 max-w-full">
+              <span className="truncate">{subtitleFile.name}</span>
+              <button onClick={() => setSubtitleFile(null)} className="text-slate-400 hover:text-red-500 px-1" title="Remove subtitles">✕</button>
+            </span>
+          ) : (
+            <label className={`font-semibold text-slate-500 ${appState === AppState.PROCESSING ? 'opacity-50' : 'cursor-pointer hover:text-blue-600'}`}>
+              + Add subtitles (SRT, VTT, LRC)
+              <input
+                type="file"
+                className="hidden"
+                accept=".srt,.vtt,.lrc"
+                onChange={handleInputChange}
+                disabled={appState === AppState.PROCESSING}
+              />
+            </label>
+          )}
+        </div>
+
         {errorMsg && (
           <p className="text-red-500 text-xs mt-2 px-4">{errorMsg}</p>
         )}
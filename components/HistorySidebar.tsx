@@ -1,6 +1,9 @@
 import React, { useEffect, useState } from 'react';
 import { HistoryEntry } from '../types';
 import { historyDb } from '../services/historyDb';
+import { loadUsageLog, forgetEntryUsage, estimateCost, getModelPrices, UsageLog } from '../services/usage';
+import { loadSettings } from '../services/settings';
+import { ExportDialog } from './ExportDialog';
 
 interface HistorySidebarProps {
   isOpen: boolean;
@@ -11,19 +14,23 @@ interface HistorySidebarProps {
 export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose, onSelectEntry }) => {
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [loading, setLoading] = useState(false);
+  const [usageLog, setUsageLog] = useState<UsageLog | null>(null);
+  const [exportEntry, setExportEntry] = useState<HistoryEntry | null>(null);
 
-  // Load history whenever the sidebar opens
+  // Load history whenever the sidebar opens, and again when background imports finish
   useEffect(() => {
     if (isOpen) {
       loadHistory();
+      return historyDb.subscribe(() => loadHistory(false));
     }
   }, [isOpen]);
 
-  const loadHistory = async () => {
-    setLoading(true);
+  const loadHistory = async (showLoading = true) => {
+    if (showLoading) setLoading(true);
     try {
       const items = await historyDb.getAll();
       setHistory(items);
+      setUsageLog(loadUsageLog());
     } catch (e) {
       console.error("Failed to load history", e);
     } finally {
@@ -35,10 +42,16 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
     e.stopPropagation();
     if (window.confirm("Are you sure you want to delete this file?")) {
       await historyDb.delete(id);
-      loadHistory(); // Reload list
+      forgetEntryUsage(id); // The list reloads through historyDb.subscribe
     }
   };
 
+  // Estimated API cost spent on an entry, if any was recorded
+  const entryCost = (id: string) => {
+    const usage = usageLog?.entries[id];
+    return usage ? estimateCost(usage, getModelPrices(loadSettings().modelPrices)) : null;
+  };
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp).toLocaleString('en-US', {
       month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
@@ -81,7 +94,11 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
                 <div className="flex items-start justify-between mb-2">
                     <div className="flex items-center gap-2 overflow-hidden">
                         <div className="bg-blue-100 text-blue-600 p-1.5 rounded-lg shrink-0">
-                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" /></svg>
+                            {item.isVideo ? (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                            ) : (
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" /></svg>
+                            )}
                         </div>
                         <h3 className="font-semibold text-slate-700 truncate text-sm">{item.fileName}</h3>
                     </div>
@@ -89,9 +106,21 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
                 
                 <div className="flex items-center justify-between text-xs text-slate-400 mt-2">
                     <span>{formatDate(item.date)}</span>
-                    <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-500 font-medium">
-                        {item.transcription.meta.estimatedLevel}
-                    </span>
+                    <div className="flex items-center">
+                        {entryCost(item.id) !== null && (
+                            <span className="mr-2 font-mono" title="Estimated API cost">${entryCost(item.id)!.toFixed(3)}</span>
+                        )}
+                        <span className="bg-slate-100 px-2 py-0.5 rounded text-slate-500 font-medium">
+                            {item.transcription.meta.estimatedLevel}
+                        </span>
+                        <button
+                            onClick={(e) => { e.stopPropagation(); setExportEntry(item); }}
+                            className="ml-2 p-0.5 text-slate-300 hover:text-blue-600"
+                            title="Export"
+                        >
+                            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
+                        </button>
+                    </div>
                 </div>
 
                 {/* Delete Button (Visible on Hover) */}
@@ -107,6 +136,10 @@ export const HistorySidebar: React.FC<HistorySidebarProps> = ({ isOpen, onClose,
           )}
         </div>
       </div>
+
+      {exportEntry && (
+        <ExportDialog transcription={exportEntry.transcription} fileName={exportEntry.fileName} audioBlob={exportEntry.audioBlob} onClose={() => setExportEntry(null)} />
+      )}
     </>
   );
 };
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ImportItem,
+  ImportStatus,
+  getImportItems,
+  subscribeImports,
+  retryImport,
+  removeImport,
+  clearFinishedImports,
+} from '../services/importQueue';
+
+interface ImportQueueViewProps {
+  onAddFiles: (files: File[]) => void;
+  onOpenEntry: (entryId: string) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<ImportStatus, { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'bg-slate-100 text-slate-500' },
+  processing: { label: 'Processing', className: 'bg-blue-100 text-blue-700' },
+  failed: { label: 'Failed', className: 'bg-red-100 text-red-600' },
+  done: { label: 'Done', className: 'bg-green-100 text-green-700' },
+};
+
+export const ImportQueueView: React.FC<ImportQueueViewProps> = ({ onAddFiles, onOpenEntry, onClose }) => {
+  const [items, setItems] = useState<ImportItem[]>(getImportItems);
+  useEffect(() => subscribeImports(() => setItems(getImportItems())), []);
+  const finishedCount = items.filter(item => item.status === 'done').length;
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (files.length) onAddFiles(files);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Imports</h2>
+        <label className="text-xs font-bold text-blue-600 hover:text-blue-800 cursor-pointer">
+          + Add
+          <input
+            type="file"
+            className="hidden"
+            accept="audio/*,video/*,.mp3,.wav,.flac,.m4a,.aac,.ogg,.oga,.mp4,.m4v,.mov,.webm,.mkv,.srt,.vtt,.lrc"
+            multiple
+            onChange={handleInputChange}
+          />
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {items.length === 0 ? (
+          <div className="text-center py-8 text-slate-400">
+            <p>No imports.</p>
+            <p className="text-xs mt-1">Add several files to transcribe them in the background while you study.</p>
+          </div>
+        ) : (
+          items.map(item => (
+            <div key={item.id} className="bg-white border border-slate-200 rounded-xl p-3 shadow-sm">
+              <div className="flex items-center gap-2">
+                <p className="flex-1 min-w-0 text-sm font-semibold text-slate-700 truncate" title={item.file.name}>{item.file.name}</p>
+                <span className={`shrink-0 text-[10px] font-bold px-2 py-0.5 rounded ${STATUS_STYLES[item.status].className}`}>
+                  {STATUS_STYLES[item.status].label}
+                </span>
+                <button onClick={() => removeImport(item.id)} className="shrink-0 text-slate-300 hover:text-red-500" title={item.status === 'processing' ? 'Cancel' : 'Remove'}>
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              </div>
+
+              {item.subtitles && <p className="text-[10px] text-slate-400 mt-0.5 truncate">With subtitles: {item.subtitles.name}</p>}
+
+              {item.status === 'processing' && (
+                <div className="mt-2">
+                  <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-blue-600 rounded-full transition-all duration-500"
+                      style={{ width: `${Math.round((item.progress?.progress || 0) * 100)}%` }}
+                    ></div>
+                  </div>
+                  <p className="text-[10px] text-slate-400 mt-1">{item.progress?.message || 'Starting...'}</p>
+                </div>
+              )}
+
+              {item.status === 'failed' && item.error && (
+                <div className="flex items-start justify-between gap-2 mt-2">
+                  <p className="text-xs text-red-600/80 break-words min-w-0">
+                    {item.error.provider ? `${item.error.provider}: ` : ''}{item.error.message}
+                  </p>
+                  <button onClick={() => retryImport(item.id)} className="shrink-0 text-xs font-bold text-blue-600 hover:text-blue-800">
+                    Retry
+                  </button>
+                </div>
+              )}
+
+              {item.status === 'done' && item.entryId && (
+                <div className="flex items-center justify-between mt-2">
+                  <p className="text-xs text-slate-400">{item.wasInHistory ? 'Already in History' : 'Saved to History'}</p>
+                  <button onClick={() => onOpenEntry(item.entryId!)} className="text-xs font-bold text-blue-600 hover:text-blue-800">
+                    Open
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {finishedCount > 0 && (
+        <div className="bg-white border-t border-slate-100 p-3">
+          <button onClick={clearFinishedImports} className="w-full py-2 rounded-lg text-xs font-bold text-slate-500 bg-slate-100 hover:bg-slate-200">
+            Clear finished ({finishedCount})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
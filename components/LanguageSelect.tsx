@@ -0,0 +1,25 @@
+import React from 'react';
+import { NATIVE_LANGUAGES } from '../services/languages';
+
+interface LanguageSelectProps {
+  value: string;
+  options?: { code: string; label: string }[]; // Defaults to native (learner) languages
+  onChange: (code: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const LanguageSelect: React.FC<LanguageSelectProps> = ({ value, options = NATIVE_LANGUAGES, onChange, disabled, className = "" }) => {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={`bg-slate-100 text-slate-600 text-xs font-semibold rounded-full px-3 py-1.5 border-none focus:outline-none focus:ring-2 focus:ring-blue-300 cursor-pointer disabled:opacity-50 ${className}`}
+    >
+      {options.map(lang => (
+        <option key={lang.code} value={lang.code}>{lang.label}</option>
+      ))}
+    </select>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from 'react';
+import { TranscriptionSegment, RewriteAlternative } from '../types';
+import { suggestRewrites } from '../services/geminiService';
+import { AiServiceError, toAiError, isCancelled } from '../services/errors';
+import { InlineError } from './ErrorMessage';
+
+interface RewriteChooserProps {
+  segments: TranscriptionSegment[]; // Full transcript, so neighbours can be sent as context
+  index: number;
+  nativeLanguage?: string;
+  language?: string;
+  onChoose: (alternative: RewriteAlternative) => void;
+  onClose: () => void;
+}
+
+const REGISTER_STYLES: Record<RewriteAlternative['register'], string> = {
+  casual: 'bg-green-100 text-green-700',
+  professional: 'bg-indigo-100 text-indigo-700',
+  concise: 'bg-orange-100 text-orange-700',
+};
+
+export const RewriteChooser: React.FC<RewriteChooserProps> = ({ segments, index, nativeLanguage, language, onChoose, onClose }) => {
+  const segment = segments[index];
+  const [alternatives, setAlternatives] = useState<RewriteAlternative[] | null>(null);
+  const [error, setError] = useState<AiServiceError | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    const request = new AbortController();
+    setAlternatives(null);
+    setError(null);
+    suggestRewrites(segments, index, { nativeLanguage, sourceLanguage: language }, request.signal)
+      .then(result => { if (!request.signal.aborted) setAlternatives(result); })
+      .catch(e => {
+        if (isCancelled(e) || request.signal.aborted) return;
+        console.error("Rewrite suggestions failed", e);
+        setError(toAiError(e));
+      });
+    return () => request.abort();
+    // Only refetch for another segment or an explicit retry
+  }, [index, attempt]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose}></div>
+      <div className="bg-white w-full sm:w-96 max-h-[85vh] overflow-y-auto p-6 rounded-t-2xl sm:rounded-2xl shadow-2xl relative animate-fade-in-up">
+        <h4 className="text-lg font-bold text-slate-800 mb-1">Alternative Rewrites</h4>
+        <p className="text-sm text-slate-500 mb-4 pr-6">{segment.text}</p>
+
+        {segment.idiomatic && (
+          <div className="mb-4 text-xs text-slate-400">
+            <span className="font-bold uppercase tracking-wide">Current</span>
+            <p className="text-slate-600 text-sm mt-1">"{segment.idiomatic}"</p>
+          </div>
+        )}
+
+        {!alternatives && !error && (
+          <div className="flex items-center gap-2 py-6 justify-center text-sm text-slate-400">
+            <div className="w-4 h-4 border-2 border-blue-200 border-t-blue-600 rounded-full animate-spin"></div>
+            Generating alternatives...
+          </div>
+        )}
+
+        {error && (
+          <div>
+            <InlineError error={error} onDismiss={onClose} className="shadow-none" />
+            <button onClick={() => setAttempt(a => a + 1)} className="mt-2 text-xs font-bold text-red-700 hover:underline">
+              Try again
+            </button>
+          </div>
+        )}
+
+        {alternatives && (
+          <div className="space-y-3">
+            {alternatives.map(alternative => (
+              <div key={alternative.register} className="border border-slate-100 rounded-xl p-3 bg-slate-50">
+                <div className="flex items-center justify-between mb-2">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase tracking-wide ${REGISTER_STYLES[alternative.register]}`}>
+                    {alternative.register}
+                  </span>
+                  <button
+                    onClick={() => onChoose(alternative)}
+                    className="px-3 py-1 rounded-full text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 transition"
+                  >
+                    Use this
+                  </button>
+                </div>
+                <p className="text-base text-blue-900 font-medium leading-relaxed break-words">"{alternative.idiomatic}"</p>
+                {alternative.idiomExplanation && <p className="text-xs text-blue-800/80 mt-2 leading-snug">{alternative.idiomExplanation}</p>}
+                {alternative.translation && <p className="text-xs text-slate-400 mt-1 leading-snug">{alternative.translation}</p>}
+              </div>
+            ))}
+            <button onClick={() => setAttempt(a => a + 1)} className="w-full text-xs font-semibold text-slate-400 hover:text-blue-600 py-1">
+              Regenerate
+            </button>
+          </div>
+        )}
+
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-300 hover:text-slate-500">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptionSegment } from '../types';
+import { estimateWordTimings } from '../services/wordTiming';
+import { isUnspacedLanguage } from '../services/languages';
+
+// Step for the start/end nudge buttons
+const NUDGE_SECONDS = 0.1;
+// How much audio to play around an edge after nudging it
+const PREVIEW_SECONDS = 1.5;
+
+interface SegmentEditorProps {
+  segment: TranscriptionSegment;
+  language?: string;
+  currentTime: number;
+  audioUrl?: string; // For previewing nudged timings
+  canMergeNext: boolean;
+  onEditText: (text: string) => void;
+  onSplit: (wordIndex: number, at?: number) => void;
+  onMergeNext: () => void;
+  onNudge: (edge: 'start' | 'end', delta: number) => { start: number; end: number }; // Returns the new timing
+}
+
+const formatTime = (time: number) => {
+  const min = Math.floor(time / 60);
+  const sec = (time % 60).toFixed(1);
+  return `${min}:${Number(sec) < 10 ? '0' : ''}${sec}`;
+};
+
+export const SegmentEditor: React.FC<SegmentEditorProps> = ({
+  segment,
+  language,
+  currentTime,
+  audioUrl,
+  canMergeNext,
+  onEditText,
+  onSplit,
+  onMergeNext,
+  onNudge,
+}) => {
+  const [draft, setDraft] = useState(segment.text);
+  const [splitIndex, setSplitIndex] = useState<number | null>(null);
+  const previewRef = useRef<HTMLAudioElement | null>(null);
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const words = segment.words?.length ? segment.words : estimateWordTimings(segment, language);
+  const isUnspaced = isUnspacedLanguage(language);
+  // Splitting at the playhead only makes sense while it's inside this segment
+  const playheadInside = currentTime > segment.start && currentTime < segment.end;
+
+  useEffect(() => {
+    setDraft(segment.text);
+    setSplitIndex(null);
+  }, [segment.text]);
+
+  useEffect(() => {
+    return () => {
+      if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+      previewRef.current?.pause();
+    };
+  }, []);
+
+  const preview = (from: number, to: number) => {
+    if (!audioUrl) return;
+    if (!previewRef.current) previewRef.current = new Audio(audioUrl);
+    const audio = previewRef.current;
+    if (stopTimerRef.current) clearTimeout(stopTimerRef.current);
+    audio.currentTime = Math.max(0, from);
+    audio.play().catch(e => console.error("Preview failed", e));
+    stopTimerRef.current = setTimeout(() => audio.pause(), Math.max(0, to - from) * 1000);
+  };
+
+  const handleNudge = (edge: 'start' | 'end', delta: number) => {
+    // Preview around the new edge (the segment prop updates on the next render)
+    const { start, end } = onNudge(edge, delta);
+    if (edge === 'start') {
+      preview(start, Math.min(end, start + PREVIEW_SECONDS));
+    } else {
+      preview(Math.max(start, end - PREVIEW_SECONDS), end);
+    }
+  };
+
+  const renderNudge = (edge: 'start' | 'end', value: number) => (
+    <div className="flex items-center gap-1">
+      <span className="text-[10px] uppercase font-bold text-slate-400 w-8">{edge}</span>
+      <button onClick={() => handleNudge(edge, -NUDGE_SECONDS)} className="w-6 h-6 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 font-bold" title={`-${NUDGE_SECONDS}s`}>−</button>
+      <span className="font-mono text-xs text-slate-600 w-14 text-center">{formatTime(value)}</span>
+      <button onClick={() => handleNudge(edge, NUDGE_SECONDS)} className="w-6 h-6 rounded bg-slate-100 text-slate-600 hover:bg-slate-200 font-bold" title={`+${NUDGE_SECONDS}s`}>+</button>
+    </div>
+  );
+
+  return (
+    <div className="rounded-xl p-4 border border-dashed border-slate-300 bg-white space-y-3" onClick={(e) => e.stopPropagation()}>
+      {/* Text */}
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={Math.min(6, Math.max(2, Math.ceil(draft.length / 40)))}
+        className="w-full text-base text-slate-800 leading-relaxed border border-slate-200 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-blue-300 resize-none"
+      />
+      {draft.trim() !== segment.text && (
+        <div className="flex gap-2">
+          <button onClick={() => onEditText(draft)} disabled={!draft.trim()} className="px-3 py-1 rounded-full text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">Save text</button>
+          <button onClick={() => setDraft(segment.text)} className="px-3 py-1 rounded-full text-xs font-bold bg-slate-100 text-slate-500 hover:bg-slate-200">Discard</button>
+        </div>
+      )}
+
+      {/* Split point */}
+      <div>
+        <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Split before word</span>
+        <p className="text-sm text-slate-600 leading-relaxed mt-1">
+          {words.map((word, wIndex) => (
+            <span
+              key={wIndex}
+              onClick={() => wIndex > 0 && setSplitIndex(splitIndex === wIndex ? null : wIndex)}
+              className={`${isUnspaced ? '' : 'mx-0.5'} rounded ${wIndex > 0 ? 'cursor-pointer hover:bg-slate-100' : ''} ${splitIndex === wIndex ? 'border-l-2 border-red-500 pl-0.5 bg-red-50' : ''}`}
+            >
+              {word.text}
+            </span>
+          ))}
+        </p>
+        {splitIndex !== null && (
+          <div className="flex flex-wrap gap-2 mt-2">
+            <button onClick={() => onSplit(splitIndex)} className="px-3 py-1 rounded-full text-xs font-bold bg-slate-800 text-white hover:bg-slate-700">
+              Split (proportional time)
+            </button>
+            <button
+              onClick={() => onSplit(splitIndex, currentTime)}
+              disabled={!playheadInside}
+              className="px-3 py-1 rounded-full text-xs font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+              title={playheadInside ? undefined : 'Move the playhead inside this segment first'}
+            >
+              Split at {formatTime(currentTime)}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Timing + merge */}
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-2 border-t border-slate-100">
+        <div className="space-y-1">
+          {renderNudge('start', segment.start)}
+          {renderNudge('end', segment.end)}
+        </div>
+        <div className="flex flex-col gap-1 items-end">
+          <button onClick={() => preview(segment.start, segment.end)} disabled={!audioUrl} className="text-xs font-semibold text-slate-500 hover:text-blue-600 disabled:opacity-40">
+            ▶ Preview
+          </button>
+          {canMergeNext && (
+            <button onClick={onMergeNext} className="text-xs font-semibold text-slate-500 hover:text-blue-600">
+              Merge with next ↓
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
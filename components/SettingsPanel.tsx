@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppSettings, ApiCredentials, ApiMode, TranscriptionProvider } from '../types';
+import { loadCredentials, saveCredentials } from '../services/credentials';
+import { DEFAULT_MODELS } from '../services/settings';
+import { testConnection } from '../services/geminiService';
+import { getProviderConfig, ProviderId } from '../services/providers';
+import { toAiError } from '../services/errors';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChangeSettings: (changes: Partial<AppSettings>) => void;
+  onClose: () => void;
+}
+
+type ModelField = keyof typeof DEFAULT_MODELS;
+
+// Suggestions only; any model name the API accepts can be typed in
+const MODEL_OPTIONS: Record<ModelField, { label: string; models: string[] }> = {
+  transcriptionModel: { label: 'Transcription & scoring', models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite', 'gemini-2.0-flash'] },
+  ttsModel: { label: 'Text-to-speech', models: ['gemini-2.5-flash-preview-tts', 'gemini-2.5-pro-preview-tts'] },
+  textModel: { label: 'Definitions & translations', models: ['gemini-2.5-flash', 'gemini-2.5-flash-lite', 'gemini-2.5-pro', 'gemini-2.0-flash'] },
+};
+
+const MODE_LABELS: Record<ApiMode, string> = {
+  direct: 'My keys',
+  proxy: 'Server proxy',
+  mock: 'Offline demo',
+};
+
+interface ConnectionStatus {
+  state: 'testing' | 'ok' | 'failed';
+  message: string;
+}
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChangeSettings, onClose }) => {
+  const [credentials, setCredentials] = useState<ApiCredentials>(loadCredentials);
+  const [showKeys, setShowKeys] = useState(false);
+  const [status, setStatus] = useState<Partial<Record<ProviderId, ConnectionStatus>>>({});
+  const testRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => testRef.current?.abort(), []);
+
+  const updateCredentials = (changes: Partial<ApiCredentials>) => {
+    setCredentials(saveCredentials(changes));
+  };
+
+  const handleTest = async (provider: ProviderId) => {
+    testRef.current?.abort();
+    const request = new AbortController();
+    testRef.current = request;
+    setStatus(prev => ({ ...prev, [provider]: { state: 'testing', message: 'Testing...' } }));
+    try {
+      const message = await testConnection(provider, request.signal);
+      setStatus(prev => ({ ...prev, [provider]: { state: 'ok', message } }));
+    } catch (e) {
+      if (request.signal.aborted) return;
+      setStatus(prev => ({ ...prev, [provider]: { state: 'failed', message: toAiError(e).message } }));
+    }
+  };
+
+  const handleModeChange = (apiMode: ApiMode) => {
+    testRef.current?.abort();
+    setStatus({});
+    onChangeSettings({ apiMode });
+  };
+
+  const renderKeyInput = (label: string, field: keyof ApiCredentials, placeholder: string, secret = true) => (
+    <label className="block text-xs text-slate-500">
+      {label}
+      <input
+        type={secret && !showKeys ? 'password' : 'text'}
+        value={credentials[field]}
+        onChange={(e) => updateCredentials({ [field]: e.target.value })}
+        placeholder={placeholder}
+        autoComplete="off"
+        spellCheck={false}
+        className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 font-mono focus:outline-none focus:ring-2 focus:ring-blue-300"
+      />
+    </label>
+  );
+
+  const renderTest = (provider: ProviderId, disabled: boolean) => {
+    const result = status[provider];
+    return (
+      <div className="flex items-start gap-2">
+        <button
+          onClick={() => handleTest(provider)}
+          disabled={disabled || result?.state === 'testing'}
+          className="px-3 py-1 rounded-full text-xs font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40 shrink-0"
+        >
+          Test connection
+        </button>
+        {result && (
+          <p className={`text-xs break-words min-w-0 ${result.state === 'ok' ? 'text-green-600' : result.state === 'failed' ? 'text-red-600' : 'text-slate-400'}`}>
+            {result.message}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">Settings</h2>
+        <div className="w-6"></div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Connection */}
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 space-y-3">
+          <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Connection</span>
+          <div className="flex bg-slate-100 rounded-full p-1">
+            {(Object.keys(MODE_LABELS) as ApiMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleModeChange(mode)}
+                className={`flex-1 py-1.5 rounded-full text-xs font-bold ${settings.apiMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          {settings.apiMode === 'proxy' && (
+            <div className="space-y-2">
+              <label className="block text-xs text-slate-500">
+                Proxy URL
+                <input
+                  value={settings.proxyUrl}
+                  onChange={(e) => onChangeSettings({ proxyUrl: e.target.value })}
+                  onBlur={(e) => { if (!e.target.value.trim()) onChangeSettings({ proxyUrl: '/api' }); }}
+                  placeholder="/api"
+                  spellCheck={false}
+                  className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 font-mono focus:outline-none focus:ring-2 focus:ring-blue-300"
+                />
+              </label>
+              {renderKeyInput('Access token (if the proxy requires one)', 'proxyAccessToken', 'Optional')}
+              {renderTest('gemini', false)}
+              {renderTest('deepseek', false)}
+            </div>
+          )}
+          {settings.apiMode === 'mock' && (
+            <p className="text-xs text-slate-500 leading-relaxed">
+              No requests are sent. Transcripts follow the audio's length with sample sentences, speech is a test tone and scores are made up, so the whole app can be tried without a key.
+            </p>
+          )}
+        </div>
+
+        {/* API keys */}
+        {settings.apiMode !== 'mock' && (
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 space-y-4">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">API keys</span>
+              <button onClick={() => setShowKeys(!showKeys)} className="text-xs font-semibold text-slate-400 hover:text-blue-600">
+                {showKeys ? 'Hide' : 'Show'}
+              </button>
+            </div>
+
+            {settings.apiMode === 'direct' && (
+              <>
+                <div className="space-y-2">
+                  {renderKeyInput('Google Gemini (required)', 'geminiApiKey', 'AIza...')}
+                  {renderTest('gemini', !credentials.geminiApiKey.trim())}
+                </div>
+
+                <div className="space-y-2 pt-3 border-t border-slate-100">
+                  {renderKeyInput('DeepSeek (optional fallback for text)', 'deepSeekApiKey', 'sk-...')}
+                  {renderTest('deepseek', !credentials.deepSeekApiKey.trim())}
+                </div>
+              </>
+            )}
+
+            <div className={`space-y-2 ${settings.apiMode === 'direct' ? 'pt-3 border-t border-slate-100' : ''}`}>
+              <label className="block text-xs text-slate-500">
+                Transcribe with
+                <select
+                  value={settings.transcriptionProvider ?? (getProviderConfig().transcription[0] === 'whisper' ? 'whisper' : 'gemini')}
+                  onChange={(e) => onChangeSettings({ transcriptionProvider: e.target.value as TranscriptionProvider })}
+                  className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-300"
+                >
+                  <option value="gemini">Google Gemini</option>
+                  <option value="whisper">Whisper server</option>
+                </select>
+              </label>
+              {renderKeyInput('Whisper server URL (optional)', 'whisperApiUrl', 'http://localhost:8000/v1', false)}
+              {renderKeyInput('Whisper API key', 'whisperApiKey', 'Not needed for most local servers')}
+              {renderTest('whisper', false)}
+            </div>
+
+            <p className="text-[10px] text-slate-400 leading-relaxed">
+              {settings.apiMode === 'proxy'
+                ? 'Gemini and DeepSeek keys are held by the proxy. The Whisper server is always called directly.'
+                : 'Keys are stored only in this browser and sent directly to each provider. Anyone using this browser profile can read them.'}
+            </p>
+          </div>
+        )}
+
+        {/* Models */}
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 space-y-3">
+          <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Gemini models</span>
+          {(Object.keys(MODEL_OPTIONS) as ModelField[]).map(field => (
+            <label key={field} className="block text-xs text-slate-500">
+              {MODEL_OPTIONS[field].label}
+              <input
+                list={`models-${field}`}
+                value={settings[field]}
+                onChange={(e) => onChangeSettings({ [field]: e.target.value })}
+                onBlur={(e) => { if (!e.target.value.trim()) onChangeSettings({ [field]: DEFAULT_MODELS[field] }); }}
+                spellCheck={false}
+                className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 font-mono focus:outline-none focus:ring-2 focus:ring-blue-300"
+              />
+              <datalist id={`models-${field}`}>
+                {MODEL_OPTIONS[field].models.map(model => <option key={model} value={model} />)}
+              </datalist>
+            </label>
+          ))}
+          <button onClick={() => onChangeSettings(DEFAULT_MODELS)} className="text-xs font-semibold text-slate-400 hover:text-blue-600">
+            Reset to default models
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
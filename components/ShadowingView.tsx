@@ -1,39 +1,74 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { TranscriptionSegment, PronunciationScore } from '../types';
 import { AudioRecorder, playPcmData } from '../services/audioUtils';
 import { scorePronunciation, generateSpeech } from '../services/geminiService';
+import { listSpeakers, getSpeakerName } from '../services/speakers';
+import { SpeakerChip } from './SpeakerChip';
+import { AiServiceError, toAiError, isCancelled } from '../services/errors';
+import { InlineError } from './ErrorMessage';
 
 interface ShadowingViewProps {
   segments: TranscriptionSegment[];
+  speakerNames?: Record<string, string>;
   onClose: () => void;
 }
 
-export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose }) => {
+export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments: allSegments, speakerNames, onClose }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isRecording, setIsRecording] = useState(false);
   const [recorder] = useState(() => new AudioRecorder());
   const [score, setScore] = useState<PronunciationScore | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  
+  const [speakerFilter, setSpeakerFilter] = useState<string | null>(null); // Practice one speaker's lines
+  const [error, setError] = useState<AiServiceError | null>(null);
+  // TTS / scoring for the current segment; aborted when the learner moves on
+  const requestRef = useRef(new AbortController());
+
+  const speakers = listSpeakers(allSegments);
+  const segments = speakerFilter ? allSegments.filter(s => s.speaker === speakerFilter) : allSegments;
   const currentSegment = segments[currentIndex];
 
+  useEffect(() => {
+    const request = new AbortController();
+    requestRef.current = request;
+    return () => request.abort();
+  }, [currentIndex, speakerFilter]);
+
+  const reportError = (e: unknown) => {
+    if (isCancelled(e)) return;
+    console.error(e);
+    setError(toAiError(e));
+  };
+
+  const handleSpeakerFilter = (label: string | null) => {
+    setSpeakerFilter(label);
+    setCurrentIndex(0);
+    setScore(null);
+  };
+
   const handleRecordToggle = async () => {
     if (isRecording) {
       setIsRecording(false);
       const audioBlob = await recorder.stop();
       setIsProcessing(true);
       try {
-        const result = await scorePronunciation(audioBlob, currentSegment.text);
+        const result = await scorePronunciation(audioBlob, currentSegment.text, requestRef.current.signal);
         setScore(result);
       } catch (e) {
-        console.error(e);
+        reportError(e);
       } finally {
         setIsProcessing(false);
       }
     } else {
       setScore(null);
-      await recorder.start();
-      setIsRecording(true);
+      setError(null);
+      try {
+        await recorder.start();
+        setIsRecording(true);
+      } catch (e) {
+        console.error(e);
+        setError(toAiError(e));
+      }
     }
   };
 
@@ -42,15 +77,20 @@ export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose
      // or we could pass a callback to play the specific range in main player.
      // Let's use TTS for the segment to ensure clean audio for shadowing.
      try {
-         const audio = await generateSpeech(currentSegment.text);
+         const audio = await generateSpeech(currentSegment.text, requestRef.current.signal);
          playPcmData(audio);
-     } catch (e) { console.error(e); }
+     } catch (e) {
+         reportError(e);
+     }
   };
 
   const playIdiom = async () => {
-      if (currentSegment.idiomatic) {
-          const audio = await generateSpeech(currentSegment.idiomatic);
+      if (!currentSegment.idiomatic) return;
+      try {
+          const audio = await generateSpeech(currentSegment.idiomatic, requestRef.current.signal);
           playPcmData(audio);
+      } catch (e) {
+          reportError(e);
       }
   };
 
@@ -65,6 +105,29 @@ export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose
         <div className="w-6"></div>
       </div>
 
+      {/* Speaker Filter */}
+      {speakers.length > 1 && (
+        <div className="bg-white border-b border-slate-100 px-4 py-2 flex items-center gap-2 overflow-x-auto no-scrollbar">
+          <button
+            onClick={() => handleSpeakerFilter(null)}
+            disabled={isRecording}
+            className={`px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wide shrink-0 ${speakerFilter === null ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+          >
+            All
+          </button>
+          {speakers.map(label => (
+            <SpeakerChip
+              key={label}
+              label={label}
+              name={getSpeakerName(label, speakerNames)}
+              active={speakerFilter === label}
+              onClick={isRecording ? undefined : () => handleSpeakerFilter(label)}
+              className="shrink-0"
+            />
+          ))}
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-6 space-y-8 flex flex-col items-center">
         {/* Previous Segment (Ghosted) */}
@@ -76,10 +139,15 @@ export const ShadowingView: React.FC<ShadowingViewProps> = ({ segments, onClose
 
         {/* Current Segment (Active) */}
         <div className="w-full bg-white rounded-2xl shadow-xl p-6 text-center border-t-4 border-blue-500">
+            {speakers.length > 1 && currentSegment.speaker && (
+                <SpeakerChip label={currentSegment.speaker} name={getSpeakerName(currentSegment.speaker, speakerNames)} className="mb-3" />
+            )}
             <p className="text-xl font-medium text-slate-900 mb-4">{currentSegment.text}</p>
             <p className="text-slate-500 text-sm">{currentSegment.translation}</p>
         </div>
 
+        {error && <InlineError error={error} onDismiss={() => setError(null)} className="w-full" />}
+
         {/* Score Card */}
         {score && (
             <div className={`w-full p-4 rounded-xl animate-fade-in-up ${score.score >= 80 ? 'bg-green-50 border border-green-200' : 'bg-orange-50 border border-orange-200'}`}>
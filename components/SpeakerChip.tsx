@@ -0,0 +1,47 @@
+import React from 'react';
+
+const SPEAKER_COLORS = [
+  'bg-sky-100 text-sky-700',
+  'bg-rose-100 text-rose-700',
+  'bg-emerald-100 text-emerald-700',
+  'bg-amber-100 text-amber-700',
+  'bg-violet-100 text-violet-700',
+  'bg-teal-100 text-teal-700',
+];
+
+// Colour follows the label ('S1', 'S2', ...) so a speaker looks the same in every view
+const colorFor = (label: string) => {
+  const n = parseInt(label.replace(/\D/g, ''), 10);
+  const index = Number.isFinite(n) ? n - 1 : [...label].reduce((sum, c) => sum + c.charCodeAt(0), 0);
+  return SPEAKER_COLORS[((index % SPEAKER_COLORS.length) + SPEAKER_COLORS.length) % SPEAKER_COLORS.length];
+};
+
+interface SpeakerChipProps {
+  label: string;
+  name: string;
+  onRename?: (label: string, name: string) => void; // Click to rename when provided
+  onClick?: () => void;
+  active?: boolean;
+  className?: string;
+}
+
+export const SpeakerChip: React.FC<SpeakerChipProps> = ({ label, name, onRename, onClick, active, className = "" }) => {
+  const handleClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onClick) return onClick();
+    if (!onRename) return;
+    const newName = window.prompt('Speaker name', name)?.trim();
+    if (newName && newName !== name) onRename(label, newName);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={!onRename && !onClick}
+      className={`inline-flex items-center px-2 py-0.5 rounded-full text-[10px] font-bold tracking-wide transition-all ${colorFor(label)} ${active ? 'ring-2 ring-offset-1 ring-current' : ''} ${onRename || onClick ? 'cursor-pointer hover:opacity-80' : 'cursor-default'} ${className}`}
+      title={onRename ? 'Rename speaker' : undefined}
+    >
+      {name}
+    </button>
+  );
+};
@@ -1,7 +1,17 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { TranscriptionSegment, WordDefinition, PronunciationScore } from '../types';
+import { TranscriptionSegment, WordDefinition, PronunciationScore, RewriteAlternative } from '../types';
 import { getWordDefinition, generateSpeech, scorePronunciation } from '../services/geminiService';
 import { playPcmData, AudioRecorder } from '../services/audioUtils';
+import { estimateWordTimings } from '../services/wordTiming';
+import { cleanWord } from '../services/tokenize';
+import { getSourceLanguage, isUnspacedLanguage } from '../services/languages';
+import { listSpeakers, getSpeakerName } from '../services/speakers';
+import { SpeakerChip } from './SpeakerChip';
+import { RewriteChooser } from './RewriteChooser';
+import { SegmentEditor } from './SegmentEditor';
+import { editSegmentText, splitSegment, mergeWithNext, nudgeSegment, nudgedTimes } from '../services/transcriptEdits';
+import { AiServiceError, toAiError, isCancelled } from '../services/errors';
+import { InlineError } from './ErrorMessage';
 
 interface TranscriptViewProps {
   segments: TranscriptionSegment[];
@@ -9,6 +19,19 @@ interface TranscriptViewProps {
   onSegmentClick: (time: number) => void;
   meta?: { wordCount: number, speed: string, estimatedLevel: string };
   onToggleFavorite?: (segment: TranscriptionSegment) => void;
+  readOnly?: boolean; // Hides practice controls (e.g. while the transcript is still being generated)
+  nativeLanguage?: string; // Language for word definitions' translations
+  language?: string; // Spoken (source) language of the transcript
+  speakerNames?: Record<string, string>;
+  onRenameSpeaker?: (label: string, name: string) => void;
+  contextSegments?: TranscriptionSegment[]; // Full transcript when `segments` is filtered (e.g. favorites)
+  onChooseRewrite?: (segment: TranscriptionSegment, alternative: RewriteAlternative) => void;
+  isEditing?: boolean; // Edit mode: segments become editors instead of study cards
+  audioUrl?: string; // For previewing timing edits
+  duration?: number;
+  onEditSegments?: (edit: (segments: TranscriptionSegment[]) => TranscriptionSegment[]) => void; // Applied to contextSegments
+  onRetryEnrichment?: (segment: TranscriptionSegment) => void; // For segments marked enrichmentFailed
+  onWordLookedUp?: (definition: WordDefinition, segment: TranscriptionSegment) => void; // Remembered for Anki export
 }
 
 // Subcomponent for Blurred Text (Reusable)
@@ -60,13 +83,27 @@ const BlurredText = ({
   );
 };
 
-export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, currentTime, onSegmentClick, meta, onToggleFavorite }) => {
+export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, currentTime, onSegmentClick, meta, onToggleFavorite, readOnly = false, nativeLanguage, language, speakerNames, onRenameSpeaker, contextSegments = segments, onChooseRewrite, isEditing = false, audioUrl, duration, onEditSegments, onRetryEnrichment, onWordLookedUp }) => {
   const scrollRef = useRef<HTMLDivElement>(null);
   const activeRef = useRef<HTMLDivElement>(null);
+  const sourceLanguage = getSourceLanguage(language || '');
+  const isUnspaced = isUnspacedLanguage(sourceLanguage.code);
+  // Single-speaker recordings don't need labels
+  const showSpeakers = listSpeakers(segments).length > 1;
   
   // Word Definition State
   const [definition, setDefinition] = useState<WordDefinition | null>(null);
 
+  // Last failed lookup / TTS / scoring, shown as a toast
+  const [actionError, setActionError] = useState<AiServiceError | null>(null);
+
+  // Pending definition lookup (superseded by the next word clicked) and requests to drop on unmount
+  const definitionRequestRef = useRef<AbortController | null>(null);
+  const unmountRef = useRef<AbortController | null>(null);
+
+  // Segment whose alternative rewrites are open (index into contextSegments)
+  const [rewriteIndex, setRewriteIndex] = useState<number | null>(null);
+
   // Audio Playback State (Caching)
   const [audioCache, setAudioCache] = useState<Record<string, string>>({}); // text -> base64
   const [loadingIdiomText, setLoadingIdiomText] = useState<string | null>(null);
@@ -89,14 +126,36 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
     }
   }, [currentTime, segments]);
 
-  const handleWordClick = async (e: React.MouseEvent, word: string, segmentText: string) => {
+  useEffect(() => {
+    // Created here rather than in useRef, so a StrictMode remount gets a fresh one
+    const unmount = new AbortController();
+    unmountRef.current = unmount;
+    return () => {
+      unmount.abort();
+      definitionRequestRef.current?.abort();
+    };
+  }, []);
+
+  const reportError = (err: unknown) => {
+    if (isCancelled(err)) return;
+    console.error(err);
+    setActionError(toAiError(err));
+  };
+
+  const handleWordClick = async (e: React.MouseEvent, word: string, segment: TranscriptionSegment) => {
     e.stopPropagation();
-    const cleanWord = word.replace(/[^\w']/g, "");
-    if (!cleanWord) return;
+    const lookup = cleanWord(word);
+    if (!lookup) return;
+    definitionRequestRef.current?.abort();
+    const request = new AbortController();
+    definitionRequestRef.current = request;
     try {
-      const def = await getWordDefinition(cleanWord, segmentText);
+      const def = await getWordDefinition(lookup, segment.text, { nativeLanguage, sourceLanguage: sourceLanguage.code }, request.signal);
       setDefinition(def);
-    } catch (err) { console.error(err); }
+      onWordLookedUp?.(def, segment);
+    } catch (err) {
+      reportError(err);
+    }
   };
 
   const handlePlayOriginalSegment = (e: React.MouseEvent, startTime: number) => {
@@ -112,13 +171,13 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
       let audioData = audioCache[text];
       if (!audioData) {
           setLoadingIdiomText(text);
-          audioData = await generateSpeech(text);
+          audioData = await generateSpeech(text, unmountRef.current?.signal);
           setAudioCache(prev => ({...prev, [text]: audioData}));
           setLoadingIdiomText(null);
       }
       await playPcmData(audioData);
     } catch (e) {
-      console.error(e);
+      reportError(e);
       setLoadingIdiomText(null);
     } finally {
       setPlayingIdiomText(null);
@@ -139,10 +198,10 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
             const url = URL.createObjectURL(blob);
             setUserRecordings(prev => ({...prev, [text]: url}));
 
-            const result = await scorePronunciation(blob, text);
+            const result = await scorePronunciation(blob, text, unmountRef.current?.signal);
             setIdiomScores(prev => ({...prev, [text]: result}));
         } catch (e) {
-            console.error(e);
+            reportError(e);
         } finally {
             setScoringIdiomText(null);
         }
@@ -161,10 +220,16 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
             return next;
         });
     } catch (e) {
-        console.error(e);
+        reportError(e);
     }
   };
 
+  const handleOpenRewrites = (e: React.MouseEvent, segment: TranscriptionSegment) => {
+      e.stopPropagation();
+      const index = contextSegments.indexOf(segment);
+      if (index !== -1) setRewriteIndex(index);
+  };
+
   const handlePlayUserRecording = (e: React.MouseEvent, text: string) => {
       e.stopPropagation();
       const url = userRecordings[text];
@@ -197,6 +262,27 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 space-y-6 pb-40 no-scrollbar">
         {segments.map((segment, index) => {
           const isActive = currentTime >= segment.start && currentTime < segment.end;
+
+          if (isEditing && onEditSegments) {
+            const i = contextSegments.indexOf(segment);
+            return (
+              <SegmentEditor
+                key={index}
+                segment={segment}
+                language={sourceLanguage.code}
+                currentTime={currentTime}
+                audioUrl={audioUrl}
+                canMergeNext={i !== -1 && i < contextSegments.length - 1}
+                onEditText={(text) => onEditSegments(list => editSegmentText(list, list.indexOf(segment), text, sourceLanguage.code))}
+                onSplit={(wordIndex, at) => onEditSegments(list => splitSegment(list, list.indexOf(segment), wordIndex, sourceLanguage.code, at))}
+                onMergeNext={() => onEditSegments(list => mergeWithNext(list, list.indexOf(segment), sourceLanguage.code))}
+                onNudge={(edge, delta) => {
+                  onEditSegments(list => nudgeSegment(list, list.indexOf(segment), edge, delta, duration));
+                  return nudgedTimes(contextSegments, i, edge, delta, duration) || segment;
+                }}
+              />
+            );
+          }
           
           return (
             <div
@@ -210,7 +296,7 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
               onClick={() => onSegmentClick(segment.start)}
             >
               {/* Bookmark Icon */}
-              {onToggleFavorite && (
+              {onToggleFavorite && !readOnly && (
                   <button 
                     onClick={(e) => { e.stopPropagation(); onToggleFavorite(segment); }}
                     className={`absolute top-4 right-4 p-1 rounded-full transition-colors z-10 ${segment.isFavorite ? 'text-yellow-400 hover:text-yellow-500' : 'text-slate-200 hover:text-slate-400'}`}
@@ -232,16 +318,31 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                  
                  {/* Text content */}
                  <div className="flex-1 min-w-0">
+                    {showSpeakers && segment.speaker && (
+                        <SpeakerChip
+                            label={segment.speaker}
+                            name={getSpeakerName(segment.speaker, speakerNames)}
+                            onRename={readOnly ? undefined : onRenameSpeaker}
+                            className="mb-1"
+                        />
+                    )}
                     <p className={`text-base break-words whitespace-pre-wrap leading-relaxed ${isActive ? 'text-slate-900 font-medium' : 'text-slate-600'}`}>
-                        {segment.text.split(' ').map((word, wIndex) => (
-                        <span 
-                            key={wIndex}
-                            className="hover:text-blue-600 hover:underline decoration-blue-300 decoration-2 cursor-pointer mx-0.5"
-                            onClick={(e) => handleWordClick(e, word, segment.text)}
-                        >
-                            {word}
-                        </span>
-                        ))}
+                        {(segment.words?.length ? segment.words : estimateWordTimings(segment, sourceLanguage.code)).map((word, wIndex) => {
+                          const isActiveWord = isActive && currentTime >= word.start && currentTime < word.end;
+                          return (
+                            <span 
+                                key={wIndex}
+                                className={`hover:text-blue-600 hover:underline decoration-blue-300 decoration-2 cursor-pointer rounded transition-colors ${isUnspaced ? '' : 'mx-0.5'} ${isActiveWord ? 'bg-yellow-200 text-slate-900' : ''}`}
+                                onClick={(e) => {
+                                    // Seek to the exact word, then look it up
+                                    onSegmentClick(word.start);
+                                    handleWordClick(e, word.text, segment);
+                                }}
+                            >
+                                {word.text}
+                            </span>
+                          );
+                        })}
                     </p>
                  </div>
               </div>
@@ -251,7 +352,7 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                   <div className="mb-4 bg-blue-50 rounded-lg p-3 border-l-4 border-blue-400 shadow-sm overflow-hidden">
                     <div className="mb-3">
                         <div className="text-[10px] uppercase font-bold text-blue-400 tracking-wider mb-1 flex items-center gap-1">
-                            <span>🇺🇸 American Native Rewrite</span>
+                            <span>{sourceLanguage.flag} {sourceLanguage.name} Native Rewrite</span>
                         </div>
                         <p className="text-base text-blue-900 font-medium leading-relaxed break-words whitespace-pre-wrap">
                             "{segment.idiomatic}"
@@ -270,6 +371,7 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                         </div>
                     )}
 
+                    {!readOnly && (
                     <div className="flex flex-wrap items-center gap-2 pt-2 border-t border-blue-100/50">
                         {/* Play Button */}
                         <button 
@@ -319,6 +421,18 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                             </button>
                         )}
 
+                        {/* Alternative Rewrites */}
+                        {onChooseRewrite && (
+                            <button
+                                onClick={(e) => handleOpenRewrites(e, segment)}
+                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold bg-white text-slate-500 hover:text-purple-600 hover:bg-slate-50 hover:shadow-md transition-all shadow-sm"
+                                title="Compare casual, professional and concise rewrites"
+                            >
+                                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                                <span>Alternatives</span>
+                            </button>
+                        )}
+
                         {scoringIdiomText === segment.idiomatic && (
                              <span className="text-xs font-medium text-slate-400 animate-pulse ml-1">Scoring...</span>
                         )}
@@ -334,6 +448,31 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                             </div>
                         )}
                     </div>
+                    )}
+                  </div>
+              )}
+
+              {/* No rewrite yet (e.g. enrichment failed) */}
+              {!segment.idiomatic && onChooseRewrite && !readOnly && (
+                  <button
+                      onClick={(e) => handleOpenRewrites(e, segment)}
+                      className="mb-3 text-xs font-semibold text-blue-500 hover:text-blue-700"
+                  >
+                      + Suggest native rewrites
+                  </button>
+              )}
+
+              {segment.enrichmentFailed && !readOnly && (
+                  <div className="mb-3 flex items-center gap-2 text-xs text-amber-700">
+                      <span>Translation unavailable</span>
+                      {onRetryEnrichment && (
+                          <button
+                              onClick={(e) => { e.stopPropagation(); onRetryEnrichment(segment); }}
+                              className="font-semibold text-blue-500 hover:text-blue-700"
+                          >
+                              Retry
+                          </button>
+                      )}
                   </div>
               )}
 
@@ -350,6 +489,28 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
         })}
       </div>
 
+      {actionError && (
+        <InlineError
+          error={actionError}
+          onDismiss={() => setActionError(null)}
+          className="absolute bottom-44 left-4 right-4 z-30 animate-fade-in-up"
+        />
+      )}
+
+      {rewriteIndex !== null && onChooseRewrite && (
+        <RewriteChooser
+          segments={contextSegments}
+          index={rewriteIndex}
+          nativeLanguage={nativeLanguage}
+          language={sourceLanguage.code}
+          onChoose={(alternative) => {
+            onChooseRewrite(contextSegments[rewriteIndex], alternative);
+            setRewriteIndex(null);
+          }}
+          onClose={() => setRewriteIndex(null)}
+        />
+      )}
+
       {definition && (
         <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center pointer-events-none">
           <div className="absolute inset-0 bg-black/20 pointer-events-auto" onClick={() => setDefinition(null)}></div>
@@ -360,6 +521,7 @@ export const TranscriptView: React.FC<TranscriptViewProps> = ({ segments, curren
                 <div>
                     <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Definition</span>
                     <p className="text-slate-700 mt-1">{definition.definition}</p>
+                    {definition.translation && <p className="text-slate-500 text-sm mt-1">{definition.translation}</p>}
                 </div>
                 <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
                     <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">Example</span>
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings, ModelPrice } from '../types';
+import { AiCapability } from '../services/providers/types';
+import {
+  loadUsageLog,
+  subscribeUsage,
+  clearUsageLog,
+  usageByModel,
+  sumTotals,
+  estimateCost,
+  getModelPrices,
+  currentMonthDays,
+  toDateKey,
+  BUDGET_WARNING_RATIO,
+} from '../services/usage';
+
+interface UsageViewProps {
+  settings: AppSettings;
+  onChangeSettings: (changes: Partial<AppSettings>) => void;
+  onClose: () => void;
+}
+
+const CAPABILITY_LABELS: Record<AiCapability, string> = {
+  transcription: 'Transcription',
+  enrichment: 'Translations & rewrites',
+  rewrite: 'Alternative rewrites',
+  tts: 'Text-to-speech',
+  scoring: 'Pronunciation scoring',
+  definition: 'Word definitions',
+};
+
+// Days shown in the daily breakdown
+const RECENT_DAYS = 14;
+
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatTokens = (tokens: number) => tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+const formatMinutes = (seconds: number) => `${(seconds / 60).toFixed(1)} min`;
+
+export const UsageView: React.FC<UsageViewProps> = ({ settings, onChangeSettings, onClose }) => {
+  const [log, setLog] = useState(loadUsageLog);
+  const [showPrices, setShowPrices] = useState(false);
+
+  useEffect(() => subscribeUsage(() => setLog(loadUsageLog())), []);
+
+  const prices = getModelPrices(settings.modelPrices);
+  const monthDays = currentMonthDays(log);
+  const monthUsage = usageByModel(log, monthDays);
+  const monthTotals = sumTotals(monthUsage);
+  const monthCost = estimateCost(monthUsage, prices);
+  const budget = settings.monthlyBudget;
+  const budgetRatio = budget > 0 ? monthCost / budget : 0;
+
+  const recentDays = Array.from({ length: RECENT_DAYS }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    return toDateKey(date);
+  }).filter(day => log.days[day]);
+
+  const updatePrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const number = Math.max(0, parseFloat(value) || 0);
+    onChangeSettings({ modelPrices: { ...settings.modelPrices, [model]: { ...prices[model], [field]: number } } });
+  };
+
+  const handleClear = () => {
+    if (window.confirm("Delete all recorded usage?")) clearUsageLog();
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-slate-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-slate-100 px-4 py-3 flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-800">
+          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" /></svg>
+        </button>
+        <h2 className="font-bold text-slate-800">API Usage</h2>
+        <div className="w-6"></div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* This month */}
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="flex items-baseline justify-between">
+            <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">This month (estimated)</span>
+            <span className="text-2xl font-bold text-slate-800">{formatCost(monthCost)}</span>
+          </div>
+          <div className="grid grid-cols-3 gap-2 mt-3 text-center">
+            <div>
+              <p className="text-sm font-bold text-slate-700">{monthTotals.requests}</p>
+              <p className="text-[10px] text-slate-400 uppercase">Requests</p>
+            </div>
+            <div>
+              <p className="text-sm font-bold text-slate-700">{formatTokens(monthTotals.inputTokens + monthTotals.outputTokens)}</p>
+              <p className="text-[10px] text-slate-400 uppercase">Tokens</p>
+            </div>
+            <div>
+              <p className="text-sm font-bold text-slate-700">{formatMinutes(monthTotals.audioSeconds)}</p>
+              <p className="text-[10px] text-slate-400 uppercase">Audio</p>
+            </div>
+          </div>
+
+          {/* Budget */}
+          <div className="mt-4 pt-3 border-t border-slate-100">
+            <label className="flex items-center justify-between text-xs text-slate-500">
+              <span>Monthly budget (USD, 0 = none)</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={budget}
+                onChange={(e) => onChangeSettings({ monthlyBudget: Math.max(0, parseFloat(e.target.value) || 0) })}
+                className="w-20 border border-slate-200 rounded px-2 py-1 text-right text-slate-700"
+              />
+            </label>
+            {budget > 0 && (
+              <>
+                <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden mt-2">
+                  <div
+                    className={`h-full rounded-full ${budgetRatio >= 1 ? 'bg-red-500' : budgetRatio >= BUDGET_WARNING_RATIO ? 'bg-amber-500' : 'bg-blue-600'}`}
+                    style={{ width: `${Math.min(100, Math.round(budgetRatio * 100))}%` }}
+                  ></div>
+                </div>
+                {budgetRatio >= BUDGET_WARNING_RATIO && (
+                  <p className={`text-xs mt-2 font-semibold ${budgetRatio >= 1 ? 'text-red-600' : 'text-amber-700'}`}>
+                    {budgetRatio >= 1
+                      ? `Over budget: ${formatCost(monthCost)} of ${formatCost(budget)} used.`
+                      : `${Math.round(budgetRatio * 100)}% of this month's budget used.`}
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* By feature */}
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">By feature this month</span>
+          <div className="mt-2 divide-y divide-slate-100">
+            {(Object.keys(CAPABILITY_LABELS) as AiCapability[]).map(capability => {
+              const usage = usageByModel(log, monthDays, capability);
+              const totals = sumTotals(usage);
+              if (totals.requests === 0) return null;
+              return (
+                <div key={capability} className="flex items-center justify-between py-2 text-sm">
+                  <div>
+                    <p className="text-slate-700 font-medium">{CAPABILITY_LABELS[capability]}</p>
+                    <p className="text-[10px] text-slate-400">
+                      {totals.requests} requests · {formatTokens(totals.inputTokens + totals.outputTokens)} tokens
+                      {totals.audioSeconds > 0 ? ` · ${formatMinutes(totals.audioSeconds)}` : ''}
+                    </p>
+                  </div>
+                  <span className="font-mono text-slate-600">{formatCost(estimateCost(usage, prices))}</span>
+                </div>
+              );
+            })}
+            {monthTotals.requests === 0 && <p className="py-2 text-xs text-slate-400">No requests yet this month.</p>}
+          </div>
+        </div>
+
+        {/* By day */}
+        {recentDays.length > 0 && (
+          <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+            <span className="text-[10px] uppercase font-bold text-slate-400 tracking-wider">Last {RECENT_DAYS} days</span>
+            <div className="mt-2 divide-y divide-slate-100">
+              {recentDays.map(day => {
+                const usage = usageByModel(log, [day]);
+                const totals = sumTotals(usage);
+                return (
+                  <div key={day} className="flex items-center justify-between py-1.5 text-xs">
+                    <span className="text-slate-600">{day}</span>
+                    <span className="text-slate-400">{totals.requests} req · {formatTokens(totals.inputTokens + totals.outputTokens)} tok</span>
+                    <span className="font-mono text-slate-600">{formatCost(estimateCost(usage, prices))}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Prices */}
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <button onClick={() => setShowPrices(!showPrices)} className="w-full flex items-center justify-between text-[10px] uppercase font-bold text-slate-400 tracking-wider">
+            <span>Prices (USD)</span>
+            <span>{showPrices ? 'Hide' : 'Edit'}</span>
+          </button>
+          {showPrices && (
+            <div className="mt-3 space-y-3">
+              {Object.keys(prices).map(model => (
+                <div key={model} className="text-xs">
+                  <p className="font-semibold text-slate-600 mb-1">{model}</p>
+                  <div className="flex gap-2 text-slate-400">
+                    <label className="flex-1">
+                      In / 1M
+                      <input type="number" min={0} step={0.01} value={prices[model].inputPerMillion} onChange={(e) => updatePrice(model, 'inputPerMillion', e.target.value)} className="w-full border border-slate-200 rounded px-2 py-1 text-slate-700" />
+                    </label>
+                    <label className="flex-1">
+                      Out / 1M
+                      <input type="number" min={0} step={0.01} value={prices[model].outputPerMillion} onChange={(e) => updatePrice(model, 'outputPerMillion', e.target.value)} className="w-full border border-slate-200 rounded px-2 py-1 text-slate-700" />
+                    </label>
+                    <label className="flex-1">
+                      Audio / min
+                      <input type="number" min={0} step={0.001} value={prices[model].audioPerMinute || 0} onChange={(e) => updatePrice(model, 'audioPerMinute', e.target.value)} className="w-full border border-slate-200 rounded px-2 py-1 text-slate-700" />
+                    </label>
+                  </div>
+                </div>
+              ))}
+              <button onClick={() => onChangeSettings({ modelPrices: {} })} className="text-xs font-semibold text-slate-400 hover:text-blue-600">
+                Reset to default prices
+              </button>
+            </div>
+          )}
+        </div>
+
+        <p className="text-[10px] text-slate-400 text-center px-4">
+          Costs are estimates from the token counts the providers report and may differ from your bill.
+        </p>
+        <button onClick={handleClear} className="w-full text-xs font-semibold text-slate-400 hover:text-red-600 py-2">
+          Clear usage data
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptionSegment } from '../types';
+
+interface VideoPanelProps {
+  videoUrl: string;
+  currentTime: number;
+  isPlaying: boolean;
+  playbackRate: number;
+  segments: TranscriptionSegment[];
+}
+
+// The audio player's timeupdate fires ~4 times a second, so small drift is expected while playing
+const PLAYING_DRIFT_TOLERANCE = 0.3;
+const PAUSED_DRIFT_TOLERANCE = 0.05;
+
+/**
+ * Muted video that follows the audio player (which stays the single source of sound and
+ * time), with the active segment as an overlay subtitle.
+ */
+export const VideoPanel: React.FC<VideoPanelProps> = ({ videoUrl, currentTime, isPlaying, playbackRate, segments }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [showSubtitles, setShowSubtitles] = useState(true);
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  // WebM/MP4 files can be audio-only; those get no panel
+  const [hasPicture, setHasPicture] = useState(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const tolerance = isPlaying ? PLAYING_DRIFT_TOLERANCE : PAUSED_DRIFT_TOLERANCE;
+    if (Math.abs(video.currentTime - currentTime) > tolerance) video.currentTime = currentTime;
+  }, [currentTime, isPlaying, isCollapsed]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (isPlaying) {
+      // Muted playback is always allowed, but play() still rejects if interrupted by a pause
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }, [isPlaying, isCollapsed]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.playbackRate = playbackRate;
+  }, [playbackRate, isCollapsed]);
+
+  const activeSegment = segments.find(s => currentTime >= s.start && currentTime < s.end);
+
+  if (!hasPicture) return null;
+
+  if (isCollapsed) {
+    return (
+      <button
+        onClick={() => setIsCollapsed(false)}
+        className="w-full py-1 text-xs font-semibold text-slate-400 hover:text-blue-600 bg-white border-b border-slate-100"
+      >
+        Show video
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative bg-black shrink-0">
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        muted
+        playsInline
+        preload="auto"
+        onLoadedMetadata={(e) => {
+          if (e.currentTarget.videoWidth === 0) setHasPicture(false);
+          else e.currentTarget.currentTime = currentTime;
+        }}
+        className="w-full max-h-[35vh] object-contain"
+      />
+
+      {showSubtitles && activeSegment && (
+        <div className="absolute inset-x-0 bottom-3 flex justify-center px-4 pointer-events-none">
+          <p className="max-w-full text-center text-white text-sm sm:text-base font-medium leading-snug bg-black/60 px-3 py-1 rounded-lg">
+            {activeSegment.text}
+          </p>
+        </div>
+      )}
+
+      <div className="absolute top-2 right-2 flex gap-1">
+        <button
+          onClick={() => setShowSubtitles(!showSubtitles)}
+          className={`px-2 py-0.5 rounded text-[10px] font-bold ${showSubtitles ? 'bg-white/90 text-slate-800' : 'bg-black/50 text-white/70'}`}
+          title={showSubtitles ? 'Hide subtitles' : 'Show subtitles'}
+        >
+          CC
+        </button>
+        <button
+          onClick={() => setIsCollapsed(true)}
+          className="px-2 py-0.5 rounded text-[10px] font-bold bg-black/50 text-white/70 hover:text-white"
+          title="Hide video"
+        >
+          Hide
+        </button>
+      </div>
+    </div>
+  );
+};
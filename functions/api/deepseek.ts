@@ -0,0 +1,4 @@
+import { deepSeekHandler } from '../../server/proxy';
+
+// Text fallback (enrichment, rewrites, definitions), forwarded to DeepSeek
+export const onRequestPost = deepSeekHandler;
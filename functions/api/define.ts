@@ -0,0 +1,4 @@
+import { createGeminiHandler } from '../../server/proxy';
+
+// Word definitions, forwarded to Gemini
+export const onRequestPost = createGeminiHandler('define');
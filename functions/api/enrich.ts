@@ -0,0 +1,4 @@
+import { createGeminiHandler } from '../../server/proxy';
+
+// Translations, native rewrites and alternative rewrites, forwarded to Gemini
+export const onRequestPost = createGeminiHandler('enrich');
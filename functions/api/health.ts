@@ -0,0 +1,3 @@
+import { healthHandler } from '../../server/proxy';
+
+export const onRequestGet = healthHandler;
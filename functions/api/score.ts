@@ -0,0 +1,4 @@
+import { createGeminiHandler } from '../../server/proxy';
+
+// Pronunciation scoring, forwarded to Gemini
+export const onRequestPost = createGeminiHandler('score');
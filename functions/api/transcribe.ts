@@ -0,0 +1,4 @@
+import { createGeminiHandler } from '../../server/proxy';
+
+// Audio transcription, forwarded to Gemini
+export const onRequestPost = createGeminiHandler('transcribe');
@@ -0,0 +1,4 @@
+import { createGeminiHandler } from '../../server/proxy';
+
+// Text-to-speech, forwarded to Gemini
+export const onRequestPost = createGeminiHandler('tts');
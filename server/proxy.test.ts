@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiHandler, deepSeekHandler, healthHandler, MAX_BODY_BYTES, ProxyEnv } from './proxy';
+
+const TOKEN = 'secret';
+const ENV: ProxyEnv = { GEMINI_API_KEY: 'gemini-key', DEEPSEEK_API_KEY: 'deepseek-key', PROXY_ACCESS_TOKEN: TOKEN };
+const DEFINE_BODY = { model: 'gemini-2.5-flash', request: { contents: [{ role: 'user', parts: [{ text: 'hi' }] }] } };
+
+// The rate limit is module state, so every test gets its own client IP
+let clientCount = 0;
+const nextClientIp = () => `10.0.0.${++clientCount}`;
+
+const post = (body: unknown, { token = TOKEN, ip = nextClientIp(), headers = {} }: { token?: string | null; ip?: string; headers?: Record<string, string> } = {}) =>
+  new Request('http://localhost/api/define', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'CF-Connecting-IP': ip,
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+
+const stubUpstream = (response: () => Response) => {
+  const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => response());
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const geminiOk = () => new Response(JSON.stringify({ candidates: [] }), { headers: { 'Content-Type': 'application/json' } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('access token', () => {
+  const define = createGeminiHandler('define');
+
+  it('rejects a missing or wrong token with 401', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    expect((await define({ request: post(DEFINE_BODY, { token: null }), env: ENV })).status).toBe(401);
+    expect((await define({ request: post(DEFINE_BODY, { token: 'wrong' }), env: ENV })).status).toBe(401);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('forwards requests with the right token, adding the server key', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    const response = await define({ request: post(DEFINE_BODY), env: ENV });
+    expect(response.status).toBe(200);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent');
+    expect((init?.headers as Record<string, string>)['x-goog-api-key']).toBe('gemini-key');
+    expect(JSON.parse(init?.body as string)).toEqual(DEFINE_BODY.request);
+  });
+
+  it('refuses everyone when no token is configured', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    const env = { ...ENV, PROXY_ACCESS_TOKEN: undefined };
+    expect((await define({ request: post(DEFINE_BODY, { token: null }), env })).status).toBe(403);
+    expect((await healthHandler({ request: new Request('http://localhost/api/health'), env })).status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('serves anyone when public access is opted into', async () => {
+    stubUpstream(geminiOk);
+    const env = { ...ENV, PROXY_ACCESS_TOKEN: undefined, ALLOW_PUBLIC_PROXY: 'true' };
+    expect((await define({ request: post(DEFINE_BODY, { token: null }), env })).status).toBe(200);
+    const health = await healthHandler({ request: new Request('http://localhost/api/health'), env });
+    expect(await health.json()).toEqual({ gemini: true, deepseek: true });
+  });
+});
+
+describe('size limit', () => {
+  const define = createGeminiHandler('define');
+  const oversized = { ...DEFINE_BODY, padding: 'x'.repeat(MAX_BODY_BYTES.define) };
+
+  it('rejects a declared Content-Length above the route limit with 413', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    const request = post(DEFINE_BODY, { headers: { 'Content-Length': String(MAX_BODY_BYTES.define + 1) } });
+    expect((await define({ request, env: ENV })).status).toBe(413);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects an oversized body without Content-Length with 413', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    const request = post(oversized);
+    expect(request.headers.get('Content-Length')).toBeNull();
+    expect((await define({ request, env: ENV })).status).toBe(413);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body that is not JSON with 400', async () => {
+    stubUpstream(geminiOk);
+    expect((await define({ request: post('not json'), env: ENV })).status).toBe(400);
+  });
+});
+
+describe('rate limit', () => {
+  it('answers 429 with Retry-After once a client exceeds its limit', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    const define = createGeminiHandler('define');
+    const env = { ...ENV, RATE_LIMIT_PER_MINUTE: '2' };
+    const ip = nextClientIp();
+
+    expect((await define({ request: post(DEFINE_BODY, { ip }), env })).status).toBe(200);
+    expect((await define({ request: post(DEFINE_BODY, { ip }), env })).status).toBe(200);
+    const limited = await define({ request: post(DEFINE_BODY, { ip }), env });
+    expect(limited.status).toBe(429);
+    const retryAfter = Number(limited.headers.get('Retry-After'));
+    expect(retryAfter).toBeGreaterThan(0);
+    expect(retryAfter).toBeLessThanOrEqual(60);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // Other clients are counted separately
+    expect((await define({ request: post(DEFINE_BODY), env })).status).toBe(200);
+  });
+});
+
+describe('upstream responses', () => {
+  it('passes an upstream 429 and its Retry-After through', async () => {
+    stubUpstream(() => new Response(JSON.stringify({ error: { code: 429, message: 'Quota exceeded' } }), {
+      status: 429,
+      headers: { 'Content-Type': 'application/json', 'Retry-After': '17' },
+    }));
+    const response = await createGeminiHandler('define')({ request: post(DEFINE_BODY), env: ENV });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('17');
+    expect(await response.json()).toEqual({ error: { code: 429, message: 'Quota exceeded' } });
+  });
+
+  it('answers 502 when the upstream is unreachable', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubUpstream(() => { throw new TypeError('fetch failed'); });
+    const response = await deepSeekHandler({ request: post({ messages: [] }), env: ENV });
+    expect(response.status).toBe(502);
+  });
+
+  it('pins the DeepSeek model server-side', async () => {
+    const fetchMock = stubUpstream(() => new Response('{}'));
+    await deepSeekHandler({ request: post({ model: 'deepseek-reasoner', messages: [{ role: 'user', content: 'hi' }] }), env: ENV });
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string).model).toBe('deepseek-chat');
+  });
+
+  it('rejects models outside the allow list', async () => {
+    const fetchMock = stubUpstream(geminiOk);
+    const response = await createGeminiHandler('define')({ request: post({ ...DEFINE_BODY, model: 'gemini-ultra' }), env: ENV });
+    expect(response.status).toBe(400);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
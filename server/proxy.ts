@@ -0,0 +1,203 @@
+/**
+ * Shared code for the Cloudflare Pages Functions in `functions/api`. The functions hold
+ * the provider keys as secrets and forward already-built requests from the client, so
+ * prompts and schemas stay in one place (services/providers).
+ */
+
+export interface ProxyEnv {
+  GEMINI_API_KEY?: string;
+  DEEPSEEK_API_KEY?: string;
+  PROXY_ACCESS_TOKEN?: string; // Clients must send it as a Bearer token
+  ALLOW_PUBLIC_PROXY?: string; // "true" serves anyone when no PROXY_ACCESS_TOKEN is set
+  RATE_LIMIT_PER_MINUTE?: string;
+  ALLOWED_MODELS?: string; // Comma-separated; defaults to DEFAULT_ALLOWED_MODELS
+  // Upstream overrides, e.g. a local mock server
+  GEMINI_API_BASE?: string;
+  DEEPSEEK_API_BASE?: string;
+}
+
+// The part of Pages' EventContext the handlers use
+export interface ProxyContext {
+  request: Request;
+  env: ProxyEnv;
+}
+
+export type ProxyHandler = (context: ProxyContext) => Promise<Response>;
+
+export type GeminiRoute = 'transcribe' | 'score' | 'tts' | 'define' | 'enrich';
+export type ProxyRoute = GeminiRoute | 'deepseek';
+
+// Request body limits; Gemini rejects inline audio above ~20MB anyway
+export const MAX_BODY_BYTES: Record<ProxyRoute, number> = {
+  transcribe: 20 * 1024 * 1024,
+  score: 4 * 1024 * 1024,
+  tts: 16 * 1024,
+  define: 64 * 1024,
+  enrich: 512 * 1024,
+  deepseek: 512 * 1024,
+};
+
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 30;
+const RATE_LIMIT_WINDOW_MS = 60_000;
+const DEFAULT_GEMINI_API_BASE = 'https://generativelanguage.googleapis.com';
+const DEFAULT_DEEPSEEK_API_BASE = 'https://api.deepseek.com';
+const DEEPSEEK_MODEL = 'deepseek-chat';
+const DEFAULT_ALLOWED_MODELS = [
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-pro',
+  'gemini-2.0-flash',
+  'gemini-2.5-flash-preview-tts',
+  'gemini-2.5-pro-preview-tts',
+];
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+// Same shape as Google's API errors, so the client classifies both the same way
+const errorResponse = (status: number, message: string, headers: Record<string, string> = {}) =>
+  jsonResponse({ error: { code: status, message } }, status, headers);
+
+/**
+ * Fixed-window counter per client. Pages Functions keep module state per isolate only,
+ * so this is a best-effort limit (one isolate usually serves a client for a while).
+ */
+const rateWindows = new Map<string, { start: number; count: number }>();
+
+export const checkRateLimit = (clientId: string, limit: number, now = Date.now()): number | null => {
+  const window = rateWindows.get(clientId);
+  if (!window || now - window.start >= RATE_LIMIT_WINDOW_MS) {
+    rateWindows.set(clientId, { start: now, count: 1 });
+    // Keep the map from growing without bound
+    if (rateWindows.size > 10_000) {
+      rateWindows.forEach((w, id) => { if (now - w.start >= RATE_LIMIT_WINDOW_MS) rateWindows.delete(id); });
+    }
+    return null;
+  }
+  if (window.count >= limit) return window.start + RATE_LIMIT_WINDOW_MS - now; // ms until the window resets
+  window.count++;
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Without a configured token the proxy refuses everyone, unless public access is opted into.
+ * Returns the error response, or null when the request may proceed.
+ */
+const checkAccess = (request: Request, env: ProxyEnv): Response | null => {
+  if (!env.PROXY_ACCESS_TOKEN) {
+    if (env.ALLOW_PUBLIC_PROXY === 'true') return null;
+    return errorResponse(403, 'The proxy has no access token configured. Set PROXY_ACCESS_TOKEN, or ALLOW_PUBLIC_PROXY=true to let anyone use it.');
+  }
+  if (request.headers.get('Authorization') !== `Bearer ${env.PROXY_ACCESS_TOKEN}`) {
+    return errorResponse(401, 'Invalid or missing proxy access token.');
+  }
+  return null;
+};
+
+const clientIdOf = (request: Request) =>
+  request.headers.get('CF-Connecting-IP') || request.headers.get('X-Forwarded-For')?.split(',')[0].trim() || 'unknown';
+
+/**
+ * Access token, rate limit and size limit. Returns the parsed JSON body, or the error response.
+ */
+const readGuardedBody = async (context: ProxyContext, route: ProxyRoute): Promise<{ body: unknown } | { response: Response }> => {
+  const { request, env } = context;
+
+  const denied = checkAccess(request, env);
+  if (denied) return { response: denied };
+
+  const limit = Number(env.RATE_LIMIT_PER_MINUTE) || DEFAULT_RATE_LIMIT_PER_MINUTE;
+  const waitMs = checkRateLimit(clientIdOf(request), limit);
+  if (waitMs !== null) {
+    return { response: errorResponse(429, `Rate limit exceeded: ${limit} requests per minute.`, { 'Retry-After': String(Math.ceil(waitMs / 1000)) }) };
+  }
+
+  const maxBytes = MAX_BODY_BYTES[route];
+  const tooLarge = () => ({ response: errorResponse(413, `Request too large: the limit for /api/${route} is ${Math.round(maxBytes / 1024)} KB.`) });
+  if (Number(request.headers.get('Content-Length')) > maxBytes) return tooLarge();
+  // Content-Length may be missing (chunked uploads), so check what actually arrived too
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > maxBytes) return tooLarge();
+
+  try {
+    return { body: JSON.parse(text) };
+  } catch {
+    return { response: errorResponse(400, 'Request body must be JSON.') };
+  }
+};
+
+/**
+ * Passes the upstream status, body and Retry-After through unchanged.
+ */
+const relay = async (upstream: Response) => {
+  const headers: Record<string, string> = { 'Content-Type': upstream.headers.get('Content-Type') || 'application/json' };
+  const retryAfter = upstream.headers.get('Retry-After');
+  if (retryAfter) headers['Retry-After'] = retryAfter;
+  return new Response(await upstream.text(), { status: upstream.status, headers });
+};
+
+const forward = async (url: string, init: RequestInit, provider: string) => {
+  try {
+    return relay(await fetch(url, init));
+  } catch (e) {
+    console.error(`${provider} upstream request failed`, e);
+    return errorResponse(502, `${provider} is unreachable from the proxy.`);
+  }
+};
+
+/**
+ * `POST /api/<route>` with `{ model, request }`, where `request` is a Gemini REST
+ * GenerateContentRequest. Forwarded to `models/<model>:generateContent`.
+ */
+export const createGeminiHandler = (route: GeminiRoute): ProxyHandler => async (context) => {
+  const guarded = await readGuardedBody(context, route);
+  if ('response' in guarded) return guarded.response;
+  const { env } = context;
+
+  if (!env.GEMINI_API_KEY) return errorResponse(401, 'Gemini API key is not configured on the server.');
+  const { model, request } = isRecord(guarded.body) ? guarded.body : {};
+  const allowed = env.ALLOWED_MODELS ? env.ALLOWED_MODELS.split(',').map(m => m.trim()) : DEFAULT_ALLOWED_MODELS;
+  if (typeof model !== 'string' || !allowed.includes(model)) {
+    return errorResponse(400, `Model "${model}" is not allowed by this proxy.`);
+  }
+  if (!isRecord(request)) return errorResponse(400, 'Missing "request".');
+
+  const base = (env.GEMINI_API_BASE || DEFAULT_GEMINI_API_BASE).replace(/\/+$/, '');
+  return forward(`${base}/v1beta/models/${model}:generateContent`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'x-goog-api-key': env.GEMINI_API_KEY },
+    body: JSON.stringify(request),
+  }, 'Gemini');
+};
+
+/**
+ * `POST /api/deepseek` with a chat completions body. The model is pinned server-side.
+ */
+export const deepSeekHandler: ProxyHandler = async (context) => {
+  const guarded = await readGuardedBody(context, 'deepseek');
+  if ('response' in guarded) return guarded.response;
+  const { env } = context;
+
+  if (!env.DEEPSEEK_API_KEY) return errorResponse(401, 'DeepSeek API key is not configured on the server.');
+  const { messages, response_format } = isRecord(guarded.body) ? guarded.body : {};
+  if (!Array.isArray(messages)) return errorResponse(400, 'Missing "messages".');
+
+  const base = (env.DEEPSEEK_API_BASE || DEFAULT_DEEPSEEK_API_BASE).replace(/\/+$/, '');
+  return forward(`${base}/chat/completions`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${env.DEEPSEEK_API_KEY}` },
+    body: JSON.stringify({ model: DEEPSEEK_MODEL, messages, response_format, stream: false }),
+  }, 'DeepSeek');
+};
+
+/**
+ * `GET /api/health`: which providers the server has keys for (never the keys themselves).
+ */
+export const healthHandler: ProxyHandler = async ({ request, env }) => {
+  const denied = checkAccess(request, env);
+  if (denied) return denied;
+  return jsonResponse({ gemini: !!env.GEMINI_API_KEY, deepseek: !!env.DEEPSEEK_API_KEY });
+};
@@ -0,0 +1,114 @@
+import { TranscriptionResponse, TranscriptionSegment } from '../types';
+import { DecodedAudio, computeEnergyEnvelope, decodeAudioFile } from './audioUtils';
+
+const FRAME_SECONDS = 0.02;
+const DEFAULT_TOLERANCE_SECONDS = 1.5;
+// Leave a little air around speech so playback doesn't clip the first consonant
+const PADDING_SECONDS = 0.05;
+// Shorter quiet stretches are gaps inside words (stops, plosives), not pauses
+const MIN_PAUSE_SECONDS = 0.12;
+
+interface Pause {
+  start: number; // seconds
+  end: number;
+}
+
+/**
+ * Finds pauses: runs of frames below an adaptive threshold derived from the noise floor.
+ */
+const findPauses = (audio: DecodedAudio): Pause[] => {
+  const envelope = computeEnergyEnvelope(audio.samples, audio.sampleRate, FRAME_SECONDS);
+  if (envelope.length === 0) return [];
+
+  const sorted = Array.from(envelope).sort((a, b) => a - b);
+  const noiseFloor = sorted[Math.floor(sorted.length * 0.1)];
+  const speechLevel = sorted[Math.floor(sorted.length * 0.9)];
+  const threshold = noiseFloor + (speechLevel - noiseFloor) * 0.15;
+
+  const pauses: Pause[] = [];
+  let runStart = -1;
+  for (let f = 0; f <= envelope.length; f++) {
+    const quiet = f < envelope.length && envelope[f] <= threshold;
+    if (quiet && runStart === -1) runStart = f;
+    if (!quiet && runStart !== -1) {
+      if ((f - runStart) * FRAME_SECONDS >= MIN_PAUSE_SECONDS || runStart === 0 || f === envelope.length) {
+        pauses.push({ start: runStart * FRAME_SECONDS, end: f * FRAME_SECONDS });
+      }
+      runStart = -1;
+    }
+  }
+  return pauses;
+};
+
+/**
+ * Nearest pause edge to `time` within the tolerance, or null.
+ * Starts snap to where speech resumes (pause end), ends to where it stops (pause start).
+ */
+const snap = (time: number, pauses: Pause[], edge: 'start' | 'end', tolerance: number): number | null => {
+  let best: number | null = null;
+  for (const pause of pauses) {
+    const candidate = edge === 'start' ? pause.end : pause.start;
+    if (Math.abs(candidate - time) <= tolerance && (best === null || Math.abs(candidate - time) < Math.abs(best - time))) {
+      best = candidate;
+    }
+  }
+  return best;
+};
+
+/**
+ * Snaps each segment's start/end to the nearest pause in the audio, within a tolerance.
+ * Word timings are rescaled to the new bounds. Segments stay ordered and non-overlapping.
+ */
+export const alignSegments = (
+  segments: TranscriptionSegment[],
+  audio: DecodedAudio,
+  tolerance = DEFAULT_TOLERANCE_SECONDS
+): TranscriptionSegment[] => {
+  const pauses = findPauses(audio);
+  if (pauses.length === 0) return segments;
+
+  const aligned = segments.map(segment => {
+    const snappedStart = snap(segment.start, pauses, 'start', tolerance);
+    const snappedEnd = snap(segment.end, pauses, 'end', tolerance);
+    const start = snappedStart !== null ? Math.max(0, snappedStart - PADDING_SECONDS) : segment.start;
+    const end = snappedEnd !== null ? Math.min(audio.duration, snappedEnd + PADDING_SECONDS) : segment.end;
+
+    // Snapping both edges into the same pause would collapse the segment
+    if (end - start < 0.2) return segment;
+
+    const scale = (end - start) / Math.max(0.001, segment.end - segment.start);
+    return {
+      ...segment,
+      start,
+      end,
+      words: segment.words?.map(w => ({
+        ...w,
+        start: start + (w.start - segment.start) * scale,
+        end: start + (w.end - segment.start) * scale,
+      })),
+    };
+  });
+
+  // Padding can make neighbours touch; split the difference
+  for (let i = 1; i < aligned.length; i++) {
+    const prev = aligned[i - 1];
+    const cur = aligned[i];
+    if (prev.end > cur.start) {
+      const mid = (prev.end + cur.start) / 2;
+      aligned[i - 1] = { ...prev, end: Math.max(prev.start, mid) };
+      aligned[i] = { ...cur, start: Math.min(cur.end, mid) };
+    }
+  }
+  return aligned;
+};
+
+/**
+ * Re-aligns a stored transcription (e.g. a history entry) against its audio.
+ */
+export const realignTranscription = async (
+  audioBlob: Blob,
+  transcription: TranscriptionResponse
+): Promise<TranscriptionResponse> => {
+  const audio = await decodeAudioFile(audioBlob);
+  return { ...transcription, segments: alignSegments(transcription.segments, audio) };
+};
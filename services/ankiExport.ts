@@ -0,0 +1,315 @@
+import type { Database, SqlJsStatic } from 'sql.js';
+import { zipSync, strToU8 } from 'fflate';
+import { TranscriptionResponse, TranscriptionSegment, LookedUpWord } from '../types';
+import { decodeAudioFile, encodeWav } from './audioUtils';
+
+// Listening: hear the sentence, recall it. Rewrite: read it, recall the native version.
+// Word: a looked-up word in its sentence.
+export type AnkiNoteType = 'listening' | 'rewrite' | 'word';
+
+export interface AnkiExportOptions {
+  noteTypes: AnkiNoteType[];
+  deckName: string;
+}
+
+export interface AnkiPackage {
+  data: Blob;
+  noteCount: number;
+  clipCount: number;
+}
+
+export const ANKI_NOTE_TYPES: Record<AnkiNoteType, { label: string; description: string }> = {
+  listening: { label: 'Listening', description: 'Hear a favorite, recall the sentence and its meaning' },
+  rewrite: { label: 'Native rewrite', description: 'Read a favorite, recall how a native speaker would say it' },
+  word: { label: 'Words', description: 'Looked-up words with their sentence audio' },
+};
+
+export const DEFAULT_ANKI_NOTE_TYPES: AnkiNoteType[] = ['listening', 'rewrite', 'word'];
+
+// Clips are for listening, so they get a bit more bandwidth than the 16kHz used for transcription
+const CLIP_SAMPLE_RATE = 22050;
+// Keeps the first and last syllables when the timestamps are tight
+const CLIP_PADDING_SECONDS = 0.15;
+
+/**
+ * "LinguaSync::podcast", so every export lands under one parent deck.
+ */
+export const defaultDeckName = (title: string) => `LinguaSync::${title.replace(/::/g, ' ').trim() || 'Transcript'}`;
+
+/**
+ * Segments and words that would become notes with the given note types.
+ */
+export const getAnkiSources = (transcription: TranscriptionResponse, noteTypes: AnkiNoteType[]) => {
+  const favorites = transcription.segments.filter(s => s.isFavorite && s.text.trim());
+  return {
+    listening: noteTypes.includes('listening') ? favorites : [],
+    // Nothing to practise when the rewrite is missing or says the same thing
+    rewrite: noteTypes.includes('rewrite') ? favorites.filter(s => s.idiomatic.trim() && normalize(s.idiomatic) !== normalize(s.text)) : [],
+    word: noteTypes.includes('word') ? transcription.lookedUpWords || [] : [],
+  };
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Model and template definitions. IDs are fixed so re-imports reuse the note types.
+
+interface NoteModel {
+  id: number;
+  name: string;
+  fields: string[];
+  sortField: number;
+  requiredFields: number[]; // The question is blank without at least one of these
+  qfmt: string;
+  afmt: string;
+}
+
+const SENTENCE_FIELDS = ['Sentence', 'Audio', 'Translation', 'Rewrite', 'Explanation'];
+
+const MODELS: Record<AnkiNoteType, NoteModel> = {
+  listening: {
+    id: 1718361600101,
+    name: 'LinguaSync Listening',
+    fields: SENTENCE_FIELDS,
+    sortField: 0,
+    requiredFields: [1],
+    qfmt: '{{Audio}}<div class="hint">What do you hear?</div>',
+    afmt: '{{FrontSide}}<hr id="answer"><div class="sentence">{{Sentence}}</div><div class="translation">{{Translation}}</div>'
+      + '{{#Rewrite}}<div class="rewrite">{{Rewrite}}</div>{{/Rewrite}}{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}',
+  },
+  rewrite: {
+    id: 1718361600102,
+    name: 'LinguaSync Rewrite',
+    fields: SENTENCE_FIELDS,
+    sortField: 0,
+    requiredFields: [0],
+    qfmt: '<div class="sentence">{{Sentence}}</div><div class="hint">How would a native speaker say it?</div>',
+    afmt: '{{FrontSide}}<hr id="answer"><div class="rewrite">{{Rewrite}}</div>{{#Explanation}}<div class="explanation">{{Explanation}}</div>{{/Explanation}}'
+      + '<div class="translation">{{Translation}}</div>{{Audio}}',
+  },
+  word: {
+    id: 1718361600103,
+    name: 'LinguaSync Word',
+    fields: ['Word', 'Phonetic', 'Definition', 'Translation', 'Example', 'Context', 'Audio'],
+    sortField: 0,
+    requiredFields: [0],
+    qfmt: '<div class="word">{{Word}}</div>{{#Phonetic}}<div class="hint">{{Phonetic}}</div>{{/Phonetic}}<div class="context">{{Context}}</div>',
+    afmt: '{{FrontSide}}<hr id="answer"><div class="definition">{{Definition}}</div><div class="translation">{{Translation}}</div>'
+      + '{{#Example}}<div class="explanation">"{{Example}}"</div>{{/Example}}{{Audio}}',
+  },
+};
+
+const CARD_CSS = `.card { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; font-size: 20px; text-align: center; color: #1e293b; background: #fff; }
+.sentence, .word { font-size: 24px; font-weight: 600; }
+.word { font-size: 32px; }
+.context { margin-top: 12px; color: #475569; }
+.context b { color: #2563eb; }
+.hint { margin-top: 8px; font-size: 14px; color: #94a3b8; }
+.translation { margin-top: 12px; color: #475569; }
+.rewrite { margin-top: 16px; color: #2563eb; font-weight: 600; }
+.definition { font-size: 20px; }
+.explanation { margin-top: 8px; font-size: 15px; color: #64748b; font-style: italic; }`;
+
+// Schema 11 collection, the format every Anki version imports (same as genanki)
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const COLLECTION_CONF = {
+  activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+  dueCounts: true, curModel: null, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+};
+
+const DECK_CONF = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+  },
+};
+
+const deckJson = (id: number, name: string, mod: number) => ({
+  id, name, mod, desc: '', usn: -1, collapsed: false, dyn: 0, conf: 1, extendNew: 10, extendRev: 50,
+  newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+});
+
+const modelJson = (model: NoteModel, deckId: number, mod: number) => ({
+  id: model.id,
+  name: model.name,
+  type: 0,
+  mod,
+  usn: -1,
+  sortf: model.sortField,
+  did: deckId,
+  tmpls: [{ name: 'Card 1', ord: 0, qfmt: model.qfmt, afmt: model.afmt, did: null, bqfmt: '', bafmt: '' }],
+  flds: model.fields.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+  css: CARD_CSS,
+  latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+  latexPost: '\\end{document}',
+  latexsvg: false,
+  tags: [],
+  vers: [],
+  req: [[0, 'any', model.requiredFields]],
+});
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const stripHtml = (html: string) =>
+  html.replace(/<[^>]*>/g, '').replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+const sha1Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Bolds the word in its sentence (plain text in, HTML out)
+const highlightWord = (context: string, word: string) => {
+  const pattern = word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return context
+    .split(new RegExp(`(${pattern})`, 'giu'))
+    .map((part, i) => (i % 2 ? `<b>${escapeHtml(part)}</b>` : escapeHtml(part)))
+    .join('');
+};
+
+let sqlPromise: Promise<SqlJsStatic> | null = null;
+
+/**
+ * sql.js and its WASM binary (~1MB) are only fetched the first time a deck is built.
+ */
+const loadSql = () => {
+  if (!sqlPromise) {
+    sqlPromise = Promise.all([import('sql.js'), import('sql.js/dist/sql-wasm.wasm?url')])
+      .then(([{ default: initSqlJs }, { default: wasmUrl }]) => initSqlJs({ locateFile: () => wasmUrl }))
+      .catch(e => {
+        sqlPromise = null;
+        throw e;
+      });
+  }
+  return sqlPromise;
+};
+
+interface PendingNote {
+  type: AnkiNoteType;
+  fields: string[]; // HTML
+  guidSource: string; // Same sentence/word → same note, so re-imports update instead of duplicating
+}
+
+/**
+ * Builds an Anki package (.apkg) from the favorite segments and looked-up words. Every
+ * note gets its sentence audio, cut from `audioBlob` by the segment's times and encoded
+ * as WAV. Note types are LinguaSync's own, so cards keep their layout across exports.
+ */
+export const buildAnkiPackage = async (
+  transcription: TranscriptionResponse,
+  audioBlob: Blob,
+  options: AnkiExportOptions
+): Promise<AnkiPackage> => {
+  const sources = getAnkiSources(transcription, options.noteTypes);
+  const deckName = options.deckName.trim() || defaultDeckName('');
+
+  // Clips are shared between notes for the same sentence
+  const audio = await decodeAudioFile(audioBlob, CLIP_SAMPLE_RATE);
+  const clipPrefix = (await sha1Hex(`${deckName}|${audio.duration}`)).slice(0, 10);
+  const clips = new Map<string, { fileName: string; data: Uint8Array }>();
+  const clipFor = async ({ start, end }: { start: number; end: number }) => {
+    const key = `${Math.round(start * 1000)}-${Math.round(end * 1000)}`;
+    let clip = clips.get(key);
+    if (!clip) {
+      const from = Math.floor(Math.max(0, start - CLIP_PADDING_SECONDS) * audio.sampleRate);
+      const to = Math.ceil((end + CLIP_PADDING_SECONDS) * audio.sampleRate);
+      const wav = encodeWav(audio.samples.subarray(from, Math.min(audio.samples.length, to)), audio.sampleRate);
+      clip = { fileName: `linguasync-${clipPrefix}-${key}.wav`, data: new Uint8Array(await wav.arrayBuffer()) };
+      clips.set(key, clip);
+    }
+    return `[sound:${clip.fileName}]`;
+  };
+
+  const sentenceFields = async (segment: TranscriptionSegment) => [
+    escapeHtml(segment.text),
+    await clipFor(segment),
+    escapeHtml(segment.translation),
+    escapeHtml(segment.idiomatic),
+    escapeHtml(segment.idiomExplanation || ''),
+  ];
+  const wordFields = async (word: LookedUpWord) => [
+    escapeHtml(word.word),
+    escapeHtml(word.phonetic || ''),
+    escapeHtml(word.definition),
+    escapeHtml(word.translation || ''),
+    escapeHtml(word.example),
+    highlightWord(word.context, word.word),
+    await clipFor(word),
+  ];
+
+  const notes: PendingNote[] = [];
+  for (const segment of sources.listening) {
+    notes.push({ type: 'listening', fields: await sentenceFields(segment), guidSource: `listening|${transcription.language}|${segment.text}` });
+  }
+  for (const segment of sources.rewrite) {
+    notes.push({ type: 'rewrite', fields: await sentenceFields(segment), guidSource: `rewrite|${transcription.language}|${segment.text}` });
+  }
+  for (const word of sources.word) {
+    notes.push({ type: 'word', fields: await wordFields(word), guidSource: `word|${transcription.language}|${word.word.toLowerCase()}|${word.context}` });
+  }
+
+  const now = Date.now();
+  const mod = Math.floor(now / 1000);
+  // Stable per deck name, so exports of the same file go to the same deck
+  const deckId = parseInt((await sha1Hex(deckName)).slice(0, 12), 16);
+  const usedTypes = [...new Set(notes.map(n => n.type))];
+  const models = Object.fromEntries(usedTypes.map(type => [MODELS[type].id, modelJson(MODELS[type], deckId, mod)]));
+  const decks = { 1: deckJson(1, 'Default', mod), [deckId]: deckJson(deckId, deckName, mod) };
+  const tags = ` linguasync ${transcription.language} `;
+
+  const SQL = await loadSql();
+  const db: Database = new SQL.Database();
+  try {
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      mod, now, now, JSON.stringify(COLLECTION_CONF), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(DECK_CONF), '{}',
+    ]);
+
+    for (const [i, note] of notes.entries()) {
+      const model = MODELS[note.type];
+      const sortText = stripHtml(note.fields[model.sortField]);
+      const guidHash = await sha1Hex(note.guidSource);
+      const csum = parseInt((await sha1Hex(sortText)).slice(0, 8), 16);
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        now + i, guidHash.slice(0, 10), model.id, mod, tags, note.fields.join('\x1f'), sortText, csum,
+      ]);
+      // New card, due in export order
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        now + i, now + i, deckId, mod, i + 1,
+      ]);
+    }
+
+    // Media files are stored as "0", "1", ... with a name map
+    const files: Record<string, Uint8Array> = { 'collection.anki2': db.export() };
+    const media: Record<string, string> = {};
+    [...clips.values()].forEach((clip, i) => {
+      files[String(i)] = clip.data;
+      media[String(i)] = clip.fileName;
+    });
+    files.media = strToU8(JSON.stringify(media));
+
+    return { data: new Blob([zipSync(files)], { type: 'application/octet-stream' }), noteCount: notes.length, clipCount: clips.size };
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * "podcast.mp3" → "podcast.apkg".
+ */
+export const ankiFileName = (sourceFileName: string) => `${sourceFileName.replace(/\.[^.]+$/, '') || 'transcript'}.apkg`;
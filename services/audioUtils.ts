@@ -70,4 +70,97 @@ export class AudioRecorder {
       this.mediaRecorder.stream.getTracks().forEach(track => track.stop());
     });
   }
-}
\ No newline at end of file
+}
+
+// --- Decoding & Encoding (for chunked transcription) ---
+
+export interface DecodedAudio {
+  samples: Float32Array; // mono PCM
+  sampleRate: number;
+  duration: number; // seconds
+}
+
+/**
+ * Video containers we accept. Their audio track is what gets transcribed.
+ * WebM/MP4 can also be audio-only (e.g. our own recordings), so the extension is
+ * only trusted when the browser gives no usable MIME type.
+ */
+export const isVideoFile = (file: { name: string; type: string }) => {
+  if (file.type.startsWith('audio/')) return false;
+  if (file.type.startsWith('video/')) return true;
+  const typeIsVague = file.type === '' || file.type === 'application/octet-stream';
+  return typeIsVague && /\.(mp4|m4v|mov|webm|mkv)$/i.test(file.name);
+};
+
+/**
+ * Decodes an audio file into mono PCM at the given sample rate.
+ * 16kHz is plenty for speech and keeps re-encoded chunks small.
+ */
+export const decodeAudioFile = async (file: Blob, sampleRate = 16000): Promise<DecodedAudio> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const OfflineCtx = window.OfflineAudioContext || (window as any).webkitOfflineAudioContext;
+  // decodeAudioData resamples to the context's rate, so no rendering pass is needed
+  const ctx: OfflineAudioContext = new OfflineCtx(1, 1, sampleRate);
+  const buffer = await ctx.decodeAudioData(arrayBuffer);
+
+  // Downmix to mono
+  const samples = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < channel.length; i++) {
+      samples[i] += channel[i] / buffer.numberOfChannels;
+    }
+  }
+
+  return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+};
+
+/**
+ * Encodes mono Float32 PCM as a 16-bit WAV blob.
+ */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);         // fmt chunk size
+  view.setUint16(20, 1, true);          // PCM
+  view.setUint16(22, 1, true);          // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);          // block align
+  view.setUint16(34, 16, true);         // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/**
+ * RMS energy per frame. Low values mark pauses between words/sentences.
+ */
+export const computeEnergyEnvelope = (samples: Float32Array, sampleRate: number, frameSec = 0.05): Float32Array => {
+  const frameSize = Math.max(1, Math.round(sampleRate * frameSec));
+  const frameCount = Math.ceil(samples.length / frameSize);
+  const envelope = new Float32Array(frameCount);
+
+  for (let f = 0; f < frameCount; f++) {
+    const from = f * frameSize;
+    const to = Math.min(samples.length, from + frameSize);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    envelope[f] = Math.sqrt(sum / Math.max(1, to - from));
+  }
+  return envelope;
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionSegment } from '../types';
+import { AudioChunk, stitchChunkSegments } from './chunking';
+
+const segment = (start: number, end: number, text: string, speaker?: string): TranscriptionSegment => ({
+  start, end, text, speaker, translation: '', idiomatic: '',
+});
+
+// Two windows overlapping between 176s and 184s, cut at 180s
+const FIRST: AudioChunk = { start: 0, end: 184, keepUntil: 180 };
+const SECOND: AudioChunk = { start: 176, end: 364, keepUntil: 364 };
+
+describe('stitchChunkSegments', () => {
+  it('shifts the first chunk onto the timeline and drops what belongs to the next one', () => {
+    const result = stitchChunkSegments([], [
+      segment(0, 4, 'Hello there.'),
+      segment(178, 179.5, 'Almost done.'),
+      segment(181, 183, 'Next chunk.'),
+    ], FIRST, null);
+    expect(result.map(s => s.text)).toEqual(['Hello there.', 'Almost done.']);
+  });
+
+  it('shifts later chunks and their word timings by the chunk start', () => {
+    const [shifted] = stitchChunkSegments([], [
+      { ...segment(6, 7, 'Later on.'), words: [{ text: 'Later', start: 6, end: 6.5 }, { text: 'on.', start: 6.5, end: 7 }] },
+    ], SECOND, FIRST);
+    expect(shifted).toMatchObject({ start: 182, end: 183 });
+    expect(shifted.words).toEqual([{ text: 'Later', start: 182, end: 182.5 }, { text: 'on.', start: 182.5, end: 183 }]);
+  });
+
+  it("keeps the previous chunk's copy of a sentence it heard whole", () => {
+    const stitched = [segment(170, 175, 'Earlier.'), segment(177, 179.5, 'Heard whole.')];
+    const result = stitchChunkSegments(stitched, [
+      segment(1, 3.4, 'Heard whole'),
+      segment(6, 8, 'After the cut.'),
+    ], SECOND, FIRST);
+    expect(result.map(s => [s.start, s.text])).toEqual([[170, 'Earlier.'], [177, 'Heard whole.'], [182, 'After the cut.']]);
+  });
+
+  it("takes this chunk's copy when the previous one ran into the end of its audio", () => {
+    const stitched = [segment(170, 175, 'Earlier.'), segment(179, 184, 'Cut off in')];
+    const result = stitchChunkSegments(stitched, [
+      segment(3, 9, 'Cut off in the middle, heard whole here.'),
+      segment(10, 12, 'Then more.'),
+    ], SECOND, FIRST);
+    expect(result.map(s => s.text)).toEqual(['Earlier.', 'Cut off in the middle, heard whole here.', 'Then more.']);
+  });
+
+  it("keeps the previous copy when this chunk's copy starts right at its own start", () => {
+    const stitched = [segment(179, 184, 'Cut off at the end')];
+    const result = stitchChunkSegments(stitched, [segment(0.1, 5, 'off at the end of one and the start of the other.')], SECOND, FIRST);
+    expect(result).toEqual(stitched);
+  });
+
+  it('drops sentences either side of the overlap reported, not just the first one', () => {
+    const stitched = [segment(177, 179.2, 'First one.'), segment(179.5, 181, 'Second one.')];
+    const result = stitchChunkSegments(stitched, [
+      segment(1.1, 3.2, 'First one.'),
+      segment(4.3, 5.5, 'Second one!'),
+      segment(6, 7, 'Third.'),
+    ], SECOND, FIRST);
+    expect(result.map(s => s.text)).toEqual(['First one.', 'Second one.', 'Third.']);
+  });
+
+  it("renames the chunk's speaker labels after the voices in the overlap", () => {
+    const stitched = [segment(170, 176.5, 'Question?', 'S2'), segment(177, 179.5, 'Answer.', 'S1')];
+    const result = stitchChunkSegments(stitched, [
+      segment(0, 0.5, 'tion?', 'S1'),
+      segment(1, 3.5, 'Answer.', 'S2'),
+      segment(6, 8, 'Follow-up.', 'S1'),
+      segment(9, 11, 'More answer.', 'S2'),
+    ], SECOND, FIRST);
+    expect(result.slice(2).map(s => [s.text, s.speaker])).toEqual([['Follow-up.', 'S2'], ['More answer.', 'S1']]);
+  });
+});
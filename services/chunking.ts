@@ -0,0 +1,166 @@
+import { TranscriptionSegment } from '../types';
+import { DecodedAudio, computeEnergyEnvelope } from './audioUtils';
+import { shiftWordTimings } from './wordTiming';
+
+// Window sizes (seconds). 3 minutes of speech comfortably fits in one
+// response without hitting maxOutputTokens.
+const CHUNK_SECONDS = 180;
+const OVERLAP_SECONDS = 4;
+const QUIET_SEARCH_SECONDS = 15;
+const FRAME_SECONDS = 0.05;
+
+export interface AudioChunk {
+  start: number; // global offset in seconds
+  end: number;
+  // Segments starting before this point belong to this chunk; later ones to the next chunk.
+  keepUntil: number;
+}
+
+/**
+ * Finds the quietest frame between two timestamps (seconds).
+ */
+const findQuietestPoint = (envelope: Float32Array, from: number, to: number): number => {
+  const fromFrame = Math.max(0, Math.floor(from / FRAME_SECONDS));
+  const toFrame = Math.min(envelope.length - 1, Math.ceil(to / FRAME_SECONDS));
+  let best = toFrame;
+  for (let f = fromFrame; f <= toFrame; f++) {
+    if (envelope[f] < envelope[best]) best = f;
+  }
+  return best * FRAME_SECONDS;
+};
+
+/**
+ * Splits the audio into overlapping windows whose boundaries sit on pauses.
+ */
+export const planChunks = (audio: DecodedAudio): AudioChunk[] => {
+  if (audio.duration <= CHUNK_SECONDS + QUIET_SEARCH_SECONDS) {
+    return [{ start: 0, end: audio.duration, keepUntil: audio.duration }];
+  }
+
+  const envelope = computeEnergyEnvelope(audio.samples, audio.sampleRate, FRAME_SECONDS);
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+
+  while (start < audio.duration) {
+    const idealEnd = start + CHUNK_SECONDS;
+    if (idealEnd + QUIET_SEARCH_SECONDS >= audio.duration) {
+      chunks.push({ start, end: audio.duration, keepUntil: audio.duration });
+      break;
+    }
+    const cut = findQuietestPoint(envelope, idealEnd - QUIET_SEARCH_SECONDS, idealEnd);
+    chunks.push({ start, end: cut + OVERLAP_SECONDS, keepUntil: cut });
+    // Next window starts a bit before the cut so a sentence spanning it is heard whole
+    start = Math.max(0, cut - OVERLAP_SECONDS);
+  }
+  return chunks;
+};
+
+/**
+ * Slices the PCM for one chunk.
+ */
+export const sliceChunk = (audio: DecodedAudio, chunk: AudioChunk): Float32Array => {
+  const from = Math.floor(chunk.start * audio.sampleRate);
+  const to = Math.min(audio.samples.length, Math.ceil(chunk.end * audio.sampleRate));
+  return audio.samples.subarray(from, to);
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Each chunk is diarized on its own, so "S1" in one chunk may be "S2" in the next.
+ * Segments both chunks heard (the overlap) tell us which labels are the same voice.
+ */
+const matchSpeakerLabels = (
+  stitched: TranscriptionSegment[],
+  chunkSegments: TranscriptionSegment[],
+  overlapEnd: number
+): Map<string, string> => {
+  const votes = new Map<string, Map<string, number>>();
+  for (const segment of chunkSegments.filter(s => s.start < overlapEnd)) {
+    if (!segment.speaker) continue;
+    for (const earlier of stitched) {
+      const shared = Math.min(earlier.end, segment.end) - Math.max(earlier.start, segment.start);
+      if (!earlier.speaker || shared <= 0) continue;
+      const counts = votes.get(segment.speaker) || new Map<string, number>();
+      counts.set(earlier.speaker, (counts.get(earlier.speaker) || 0) + shared);
+      votes.set(segment.speaker, counts);
+    }
+  }
+
+  const mapping = new Map<string, string>();
+  votes.forEach((counts, label) => {
+    const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+    if (best) mapping.set(label, best[0]);
+  });
+
+  // A new voice whose label is now taken by a matched one gets a fresh label
+  const used = new Set(mapping.values());
+  const chunkLabels = [...new Set(chunkSegments.map(s => s.speaker))].filter((l): l is string => !!l && !mapping.has(l));
+  const taken = new Set([...stitched.map(s => s.speaker), ...used, ...chunkLabels]);
+  let next = 1;
+  for (const label of chunkLabels) {
+    if (!used.has(label)) continue;
+    while (taken.has(`S${next}`)) next++;
+    mapping.set(label, `S${next}`);
+    taken.add(`S${next}`);
+  }
+  return mapping;
+};
+
+// A segment ending this close to the end of its chunk's audio was probably cut off
+const CUT_OFF_SECONDS = 0.5;
+
+/**
+ * Shifts a chunk's (clip-relative) segments onto the global timeline,
+ * drops the ones already covered by the previous chunk's overlap and
+ * renames its speaker labels to match the earlier chunks. A sentence the
+ * previous chunk only heard up to its end is taken from this chunk instead.
+ */
+export const stitchChunkSegments = (
+  stitched: TranscriptionSegment[],
+  chunkSegments: TranscriptionSegment[],
+  chunk: AudioChunk,
+  previous: AudioChunk | null
+): TranscriptionSegment[] => {
+  let result = [...stitched];
+  const overlapTexts = new Set(stitched.filter(s => s.end > chunk.start).map(s => normalizeText(s.text)));
+  let replacing = false;
+
+  const shiftedSegments = chunkSegments.map(segment => ({
+    ...segment,
+    start: segment.start + chunk.start,
+    end: segment.end + chunk.start,
+    words: shiftWordTimings(segment.words, chunk.start),
+  }));
+  const speakerMap = previous
+    ? matchSpeakerLabels(stitched, shiftedSegments, previous.keepUntil)
+    : new Map<string, string>();
+
+  for (const segment of shiftedSegments) {
+    const shifted = segment.speaker && speakerMap.has(segment.speaker)
+      ? { ...segment, speaker: speakerMap.get(segment.speaker) }
+      : segment;
+
+    // Belongs to the next chunk
+    if (shifted.start >= chunk.keepUntil) continue;
+    // Started before the cut point, so it belongs to the previous chunk, unless that
+    // chunk's copy runs into the end of its audio and this one starts after ours does
+    if (previous && shifted.start < previous.keepUntil) {
+      if (!replacing) {
+        const cutOff = result.filter(s =>
+          s.end >= previous.end - CUT_OFF_SECONDS && s.start < shifted.end && shifted.start < s.end
+        );
+        if (cutOff.length === 0 || shifted.start < chunk.start + CUT_OFF_SECONDS) continue;
+        result = result.filter(s => !cutOff.includes(s));
+        replacing = true;
+      }
+      result.push(shifted);
+      continue;
+    }
+    // Same sentence reported by both sides of the overlap
+    if (overlapTexts.has(normalizeText(shifted.text))) continue;
+
+    result.push(shifted);
+  }
+  return result;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { buildCacheKey, hashBlob } from './contentHash';
+
+const MB = 1024 * 1024;
+
+describe('hashBlob', () => {
+  it('is the plain SHA-256 of small files', async () => {
+    expect(await hashBlob(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('hashes large files in slices, still depending on every byte', async () => {
+    const bytes = new Uint8Array(20 * MB);
+    const hash = await hashBlob(new Blob([bytes]));
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await hashBlob(new Blob([bytes]))).toBe(hash);
+
+    bytes[19 * MB] = 1;
+    expect(await hashBlob(new Blob([bytes]))).not.toBe(hash);
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('separates languages, demo runs and imported subtitles', () => {
+    const key = buildCacheKey('abc', { sourceLanguage: 'es-ES', nativeLanguage: 'en' });
+    expect(buildCacheKey('abc', { sourceLanguage: 'es-ES', nativeLanguage: 'de' })).not.toBe(key);
+    expect(buildCacheKey('abc', { sourceLanguage: 'es-ES', nativeLanguage: 'en', apiMode: 'mock' })).not.toBe(key);
+    expect(buildCacheKey('abc', { sourceLanguage: 'es-ES', nativeLanguage: 'en' }, 'def')).not.toBe(key);
+    expect(buildCacheKey('abc', { sourceLanguage: 'es-ES', nativeLanguage: 'en', apiMode: 'direct' })).toBe(key);
+  });
+});
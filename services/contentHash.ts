@@ -0,0 +1,42 @@
+import { LanguageSettings, ApiMode } from '../types';
+import { PROMPT_VERSION } from './providers/prompts';
+
+// Large files are hashed piece by piece, so a long video is never read into memory at once
+const HASH_SLICE_BYTES = 8 * 1024 * 1024;
+
+const toHex = (digest: ArrayBuffer) => Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Hex-encoded SHA-256 of the file's bytes. Files larger than one slice get the SHA-256 of
+ * their slices' digests instead (Web Crypto can't hash incrementally).
+ */
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  if (blob.size <= HASH_SLICE_BYTES) return toHex(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer()));
+
+  const digests = new Uint8Array(Math.ceil(blob.size / HASH_SLICE_BYTES) * 32);
+  for (let offset = 0, i = 0; offset < blob.size; offset += HASH_SLICE_BYTES, i++) {
+    const slice = await blob.slice(offset, offset + HASH_SLICE_BYTES).arrayBuffer();
+    digests.set(new Uint8Array(await crypto.subtle.digest('SHA-256', slice)), i * 32);
+  }
+  return toHex(await crypto.subtle.digest('SHA-256', digests));
+};
+
+/**
+ * Identifies a transcription run: same audio, same prompts and same languages
+ * give the same result, so a stored entry with this key can be reused.
+ * Demo transcripts get their own keys so they're never offered for real runs, and
+ * imported subtitles (by their hash) are part of the key too.
+ */
+export const buildCacheKey = (
+  contentHash: string,
+  { sourceLanguage, nativeLanguage, apiMode }: LanguageSettings & { apiMode?: ApiMode },
+  subtitlesHash?: string
+): string =>
+  [
+    contentHash,
+    `v${PROMPT_VERSION}`,
+    sourceLanguage,
+    nativeLanguage,
+    ...(apiMode === 'mock' ? ['mock'] : []),
+    ...(subtitlesHash ? [`subs-${subtitlesHash}`] : []),
+  ].join(':');
@@ -0,0 +1,37 @@
+import { ApiCredentials } from '../types';
+import { env } from './env';
+
+const STORAGE_KEY = 'linguasync.credentials';
+
+const EMPTY_CREDENTIALS: ApiCredentials = {
+  geminiApiKey: '',
+  deepSeekApiKey: '',
+  whisperApiUrl: '',
+  whisperApiKey: '',
+  proxyAccessToken: '',
+};
+
+/**
+ * API keys entered in Settings, persisted in localStorage. They never end up in the
+ * bundle and are only sent to the provider they belong to.
+ */
+export const loadCredentials = (): ApiCredentials => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...EMPTY_CREDENTIALS, ...JSON.parse(stored) } : EMPTY_CREDENTIALS;
+  } catch (e) {
+    console.warn("Failed to read API keys", e);
+    return EMPTY_CREDENTIALS;
+  }
+};
+
+export const saveCredentials = (changes: Partial<ApiCredentials>): ApiCredentials => {
+  const next = { ...loadCredentials(), ...changes };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+/**
+ * Transcription server: the user's setting wins over the build-time default.
+ */
+export const getWhisperApiUrl = (): string => loadCredentials().whisperApiUrl.trim() || env.WHISPER_API_URL || '';
@@ -0,0 +1,26 @@
+// Fix for "Cannot find name 'process'" in TypeScript without node types
+declare const process: {
+  env: {
+    AI_PROVIDERS?: string;
+    WHISPER_API_URL?: string;
+    WHISPER_MODEL?: string;
+    API_MODE?: string;
+    PROXY_URL?: string;
+    [key: string]: string | undefined;
+  }
+};
+
+/**
+ * Build-time configuration injected by Vite's `define` (see vite.config.ts).
+ * Public defaults only: API keys are entered at runtime (see credentials.ts).
+ */
+export const env = {
+  // Per-capability provider order, e.g. "definition=deepseek,gemini;enrichment=deepseek"
+  AI_PROVIDERS: process.env.AI_PROVIDERS,
+  // OpenAI-compatible transcription server, e.g. "http://localhost:8000/v1"
+  WHISPER_API_URL: process.env.WHISPER_API_URL,
+  WHISPER_MODEL: process.env.WHISPER_MODEL,
+  // Default for Settings > Connection: "proxy" sends requests through functions/api, "mock" is the offline demo
+  API_MODE: process.env.API_MODE,
+  PROXY_URL: process.env.PROXY_URL,
+};
@@ -0,0 +1,203 @@
+/**
+ * Typed errors thrown by the service layer. Providers' raw errors (SDK errors,
+ * HTTP responses, fetch failures) are classified once here, so retries and the
+ * UI can switch on the class instead of matching message substrings.
+ */
+
+export type AiErrorKind =
+  | 'api_key'
+  | 'rate_limit'
+  | 'quota'
+  | 'unsupported_format'
+  | 'payload_too_large'
+  | 'safety'
+  | 'service_unavailable'
+  | 'network'
+  | 'invalid_response'
+  | 'cancelled'
+  | 'unknown';
+
+// Names are literals rather than `new.target.name`, which minification mangles
+export class AiServiceError extends Error {
+  name = 'AiServiceError';
+  readonly kind: AiErrorKind = 'unknown';
+  readonly retryable: boolean = false;
+  status?: number;
+  retryAfterMs?: number; // Server-requested wait before retrying
+  provider?: string;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; provider?: string; cause?: unknown } = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.provider = options.provider;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+export class ApiKeyError extends AiServiceError {
+  name = 'ApiKeyError';
+  readonly kind = 'api_key';
+}
+
+export class RateLimitError extends AiServiceError {
+  name = 'RateLimitError';
+  readonly kind = 'rate_limit';
+  readonly retryable = true;
+}
+
+export class QuotaExceededError extends AiServiceError {
+  name = 'QuotaExceededError';
+  readonly kind = 'quota';
+}
+
+export class UnsupportedFormatError extends AiServiceError {
+  name = 'UnsupportedFormatError';
+  readonly kind = 'unsupported_format';
+}
+
+export class PayloadTooLargeError extends AiServiceError {
+  name = 'PayloadTooLargeError';
+  readonly kind = 'payload_too_large';
+}
+
+export class SafetyBlockError extends AiServiceError {
+  name = 'SafetyBlockError';
+  readonly kind = 'safety';
+}
+
+export class ServiceUnavailableError extends AiServiceError {
+  name = 'ServiceUnavailableError';
+  readonly kind = 'service_unavailable';
+  readonly retryable = true;
+}
+
+export class NetworkError extends AiServiceError {
+  name = 'NetworkError';
+  readonly kind = 'network';
+  readonly retryable = true;
+}
+
+export class InvalidResponseError extends AiServiceError {
+  name = 'InvalidResponseError';
+  readonly kind = 'invalid_response';
+  readonly retryable = true; // The model usually gets it right on the next try
+}
+
+// The user (or a newer request) aborted the call; not something to show as a failure
+export class CancelledError extends AiServiceError {
+  name = 'CancelledError';
+  readonly kind = 'cancelled';
+}
+
+/**
+ * Seconds from a `Retry-After` header (delta-seconds or HTTP date), in ms.
+ */
+export const parseRetryAfter = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini puts the wait into the error body: "retryDelay": "23s"
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"?retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+const statusFromMessage = (message: string): number | undefined => {
+  const match = message.match(/"code"\s*:\s*(\d{3})|\b(?:error|status)[:\s]+([45]\d\d)\b/i);
+  return match ? Number(match[1] || match[2]) : undefined;
+};
+
+// DOMException from an aborted fetch, or an SDK's own AbortError
+const isAbortError = (error: unknown) =>
+  typeof error === 'object' && error !== null && 'name' in error && error.name === 'AbortError';
+
+/**
+ * Classifies any thrown value into an AiServiceError. Already-typed errors pass through.
+ */
+export const toAiError = (
+  error: unknown,
+  context: { provider?: string; status?: number; retryAfterMs?: number } = {}
+): AiServiceError => {
+  if (error instanceof AiServiceError) {
+    if (!error.provider && context.provider) error.provider = context.provider;
+    return error;
+  }
+
+  if (isAbortError(error)) {
+    return new CancelledError('The request was cancelled.', { provider: context.provider, cause: error });
+  }
+
+  const raw = error instanceof Error ? error.message : typeof error === 'string' ? error : JSON.stringify(error);
+  const message = raw || 'Unknown error';
+  const lower = message.toLowerCase();
+  const errorStatus = typeof error === 'object' && error !== null && 'status' in error ? error.status : undefined;
+  const status = context.status ?? (typeof errorStatus === 'number' ? errorStatus : statusFromMessage(message));
+  const options = {
+    status,
+    retryAfterMs: context.retryAfterMs ?? parseRetryDelay(message),
+    provider: context.provider,
+    cause: error,
+  };
+
+  if (status === 401 || status === 403 || lower.includes('api key') || lower.includes('unauthenticated') || lower.includes('invalid authentication') || lower.includes('permission_denied')) {
+    return new ApiKeyError(message, options);
+  }
+  // Gemini reports per-minute limits as "exceeded your current quota" too; only daily/billing caps are final
+  if (status === 402 || lower.includes('insufficient_quota') || lower.includes('insufficient balance') || /perday|per day|daily limit/.test(lower)) {
+    return new QuotaExceededError(message, options);
+  }
+  if (status === 429 || lower.includes('resource_exhausted') || lower.includes('rate limit') || lower.includes('too many requests')) {
+    return new RateLimitError(message, options);
+  }
+  if (status === 413 || lower.includes('payload size') || lower.includes('too large') || lower.includes('request entity')) {
+    return new PayloadTooLargeError(message, options);
+  }
+  if (lower.includes('mime') || lower.includes('unsupported file') || lower.includes('unsupported audio') || lower.includes('unsupported format')) {
+    return new UnsupportedFormatError(message, options);
+  }
+  if (lower.includes('safety') || lower.includes('blocked') || lower.includes('prohibited_content')) {
+    return new SafetyBlockError(message, options);
+  }
+  if ((status && status >= 500) || lower.includes('internal error') || lower.includes('overloaded') || lower.includes('unavailable')) {
+    return new ServiceUnavailableError(message, options);
+  }
+  if (lower.includes('failed to fetch') || lower.includes('fetch failed') || lower.includes('network') || lower.includes('load failed')) {
+    return new NetworkError(message, options);
+  }
+  if (lower.includes('failed to parse') || lower.includes('unexpected token') || lower.includes('empty response')) {
+    return new InvalidResponseError(message, options);
+  }
+  return new AiServiceError(message, options);
+};
+
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof CancelledError || isAbortError(error);
+
+/**
+ * Throws a CancelledError if the signal was aborted (e.g. between chunks of a long job).
+ */
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError('The request was cancelled.');
+};
+
+/**
+ * Typed error for a failed `fetch` response, honouring `Retry-After`.
+ */
+export const errorFromResponse = async (response: Response, provider: string): Promise<AiServiceError> => {
+  let body = '';
+  try {
+    body = await response.text();
+  } catch {
+    // Body already consumed or unreadable; the status is enough
+  }
+  return toAiError(new Error(`${provider} API Error: ${response.status} ${response.statusText} ${body}`.trim()), {
+    provider,
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+  });
+};
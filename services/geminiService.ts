@@ -1,112 +1,20 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { TranscriptionResponse, WordDefinition, PronunciationScore, TranscriptionSegment } from "../types";
-
-// Fix for "Cannot find name 'process'" in TypeScript without node types
-declare const process: {
-  env: {
-    API_KEY?: string;
-    DEEPSEEK_API_KEY?: string;
-    [key: string]: string | undefined;
-  }
-};
-
-const TRANSCRIPTION_MODEL = "gemini-2.5-flash"; 
-const TTS_MODEL = "gemini-2.5-flash-preview-tts";
-
-/**
- * Lazy initialization of the AI client.
- */
-const getAi = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    throw new Error("API Key is missing. Please check your deployment environment variables.");
-  }
-  return new GoogleGenAI({ apiKey });
-};
-
-/**
- * Helper to retry async functions (e.g., API calls)
- */
-const withRetry = async <T>(fn: () => Promise<T>, retries = 3, delayMs = 1000): Promise<T> => {
-  let lastError: any;
-  for (let i = 0; i < retries; i++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-      // Retry on 5xx server errors or "internal error" messages
-      const isInternalError = error.message?.toLowerCase().includes("internal error") || 
-                              error.message?.includes("500") || 
-                              error.message?.includes("503");
-      
-      if (isInternalError && i < retries - 1) {
-        console.warn(`API call failed (attempt ${i + 1}/${retries}). Retrying in ${delayMs}ms...`, error);
-        await new Promise(resolve => setTimeout(resolve, delayMs));
-        delayMs *= 2; // Exponential backoff
-        continue;
-      }
-      throw error;
-    }
-  }
-  throw lastError;
-};
-
-/**
- * DeepSeek Client Helper
- */
-const callDeepSeek = async (systemPrompt: string, userPrompt: string): Promise<string> => {
-    const deepSeekKey = process.env.DEEPSEEK_API_KEY;
-    if (!deepSeekKey) {
-        throw new Error("DeepSeek API Key is missing");
-    }
-
-    console.log("[Fallback] Switching to DeepSeek API...");
-
-    const response = await fetch("https://api.deepseek.com/chat/completions", {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${deepSeekKey}`
-        },
-        body: JSON.stringify({
-            model: "deepseek-chat",
-            messages: [
-                { role: "system", content: systemPrompt },
-                { role: "user", content: userPrompt }
-            ],
-            stream: false,
-            response_format: { type: 'json_object' } // DeepSeek supports JSON mode
-        })
-    });
-
-    if (!response.ok) {
-        throw new Error(`DeepSeek API Error: ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    return data.choices[0].message.content;
-};
-
-/**
- * Converts a File/Blob to Base64 string (without Data URI prefix).
- */
-const fileToBase64 = async (file: File | Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      const base64 = result.split(',')[1] || result;
-      resolve(base64);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
-};
+import { TranscriptionResponse, WordDefinition, PronunciationScore, TranscriptionSegment, TranscribeOptions, LanguageSettings, RewriteAlternative, RewriteRegister, ProcessingProgress } from "../types";
+import { runWithProviders, testProviderConnection, EnrichmentInput, SegmentEnrichment, ProviderId } from "./providers";
+import { loadSettings } from "./settings";
+import { DecodedAudio, decodeAudioFile, encodeWav, isVideoFile } from "./audioUtils";
+import { planChunks, sliceChunk, stitchChunkSegments } from "./chunking";
+import { ensureWordTimings } from "./wordTiming";
+import { validateTranscription } from "./responseValidation";
+import { alignSegments } from "./alignment";
+import { countWords } from "./tokenize";
+import { parseSubtitles, getSubtitleFormat, guessLanguageFromScript } from "./subtitles";
+import { getSourceLanguage, AUTO_DETECT } from "./languages";
+import { AiServiceError, AiErrorKind, InvalidResponseError, PayloadTooLargeError, UnsupportedFormatError, toAiError, isCancelled, throwIfCancelled } from "./errors";
 
 /**
  * Post-processes segments to merge short "filler" segments.
  */
-const mergeShortSegments = (segments: TranscriptionSegment[]): TranscriptionSegment[] => {
+const mergeShortSegments = (segments: TranscriptionSegment[], language?: string): TranscriptionSegment[] => {
   const MIN_WORDS = 4;
   const merged: TranscriptionSegment[] = [];
   
@@ -116,15 +24,18 @@ const mergeShortSegments = (segments: TranscriptionSegment[]): TranscriptionSegm
 
   for (let i = 1; i < segments.length; i++) {
     const next = segments[i];
-    const currentWordCount = current.text.split(/\s+/).length;
+    const currentWordCount = countWords(current.text, language);
     const duration = current.end - current.start;
 
-    if (currentWordCount < MIN_WORDS && duration < 2.0) {
+    // Never glue two speakers' lines together
+    if (currentWordCount < MIN_WORDS && duration < 2.0 && current.speaker === next.speaker) {
       current = {
         ...current,
         end: next.end,
         text: `${current.text} ${next.text}`,
-        translation: `${current.translation} ${next.translation}`,
+        // Keep model timings only if both halves have them; otherwise they get re-estimated
+        words: current.words && next.words ? [...current.words, ...next.words] : undefined,
+        translation: [current.translation, next.translation].filter(Boolean).join(' '),
         idiomatic: next.idiomatic || current.idiomatic,
         idiomExplanation: next.idiomExplanation || current.idiomExplanation,
       };
@@ -137,20 +48,6 @@ const mergeShortSegments = (segments: TranscriptionSegment[]): TranscriptionSegm
   return merged;
 };
 
-/**
- * Helper to parse JSON that might be wrapped in Markdown code blocks
- */
-const cleanAndParseJson = <T>(text: string): T => {
-    try {
-        // Remove ```json and ``` wrap if present
-        const cleanText = text.replace(/^```json\s*/, '').replace(/\s*```$/, '');
-        return JSON.parse(cleanText) as T;
-    } catch (e) {
-        console.error("JSON Parse Error on text:", text);
-        throw new Error("Failed to parse AI response. Ensure content is valid JSON.");
-    }
-};
-
 /**
  * Helper to correct MIME types for mobile devices.
  * Mobile browsers often report "" or "application/octet-stream".
@@ -184,222 +81,421 @@ const getCorrectMimeType = (file: File): string => {
     return 'audio/mp3';
 };
 
+/**
+ * Language settings for a request: explicit values win over the saved settings.
+ */
+const resolveLanguages = (overrides: Partial<LanguageSettings> = {}): LanguageSettings => {
+  const settings = loadSettings();
+  return {
+    nativeLanguage: overrides.nativeLanguage || settings.nativeLanguage,
+    sourceLanguage: overrides.sourceLanguage || settings.sourceLanguage,
+  };
+};
+
+/**
+ * Transcribes a single clip with the configured transcription provider and
+ * validates the result against the clip's duration (when known).
+ */
+const transcribeClip = async (
+  audio: Blob,
+  mimeType: string,
+  languages: LanguageSettings,
+  duration?: number,
+  signal?: AbortSignal
+): Promise<TranscriptionResponse> => {
+  const raw = await runWithProviders('transcription', provider => provider.transcribe!(audio, mimeType, languages, signal), signal);
+  return validateTranscription(raw, duration);
+};
+
+// Videos are decoded in one piece in memory, which larger files can exhaust
+const MAX_VIDEO_BYTES = 300 * 1024 * 1024;
+
+// Share of the overall progress bar where the enrichment phase starts
+const ENRICHMENT_PROGRESS_START = 0.8;
+
+/**
+ * The enrichment phase with progress reporting.
+ * Segments whose enrichment failed are kept and marked, so they can be retried later.
+ */
+const runEnrichmentPhase = async (
+  segments: TranscriptionSegment[],
+  warnings: string[],
+  languages: LanguageSettings,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<TranscriptionSegment[]> => {
+  onProgress?.({ stage: 'enriching', progress: ENRICHMENT_PROGRESS_START, message: 'Translating...' });
+  const enriched = await enrichSegments(segments, languages, signal, (done, total) => {
+    onProgress?.({
+      stage: 'enriching',
+      progress: ENRICHMENT_PROGRESS_START + (0.95 - ENRICHMENT_PROGRESS_START) * (done / total),
+      message: `Translating ${done} of ${total} sentences...`,
+    });
+  });
+  const failed = enriched.filter(s => s.enrichmentFailed).length;
+  if (failed > 0) {
+    warnings.push(`Translations and native rewrites could not be generated for ${failed} of ${enriched.length} segments. You can retry them from the transcript.`);
+  }
+  return enriched;
+};
+
+/**
+ * Merges fillers, fills in missing word timings, snaps timestamps to pauses in the
+ * decoded audio (if any) and runs the enrichment phase.
+ */
+const postProcessSegments = async (
+  segments: TranscriptionSegment[],
+  warnings: string[],
+  audio: DecodedAudio | null,
+  languages: LanguageSettings,
+  onProgress?: (progress: ProcessingProgress) => void,
+  signal?: AbortSignal
+): Promise<TranscriptionSegment[]> => {
+  let merged = mergeShortSegments(segments, languages.sourceLanguage)
+    .map(segment => ensureWordTimings(segment, languages.sourceLanguage));
+  if (audio) merged = alignSegments(merged, audio);
+  return runEnrichmentPhase(merged, warnings, languages, onProgress, signal);
+};
+
 /**
  * Transcribes audio with Translation and Idiomatic Expressions.
- * NOTE: Strictly requires Gemini (Multimodal). DeepSeek cannot handle audio files.
+ * Long recordings are split into overlapping windows at pauses, transcribed one by one
+ * and stitched back onto a single timeline.
+ * NOTE: Requires an audio-capable transcription provider. Segments it returns without
+ * translation/rewrite are filled in by the enrichment provider afterwards.
  */
-export const transcribeAudio = async (file: File): Promise<TranscriptionResponse> => {
-  const base64Audio = await fileToBase64(file);
+export const transcribeAudio = async (file: File, options: TranscribeOptions = {}): Promise<TranscriptionResponse> => {
+  const { onProgress, onPartialSegments, signal } = options;
+  let languages = resolveLanguages({ nativeLanguage: options.nativeLanguage, sourceLanguage: options.sourceLanguage });
   const mimeType = getCorrectMimeType(file);
 
   console.log(`Uploading file: ${file.name}, Detected MIME: ${mimeType} (Original: ${file.type})`);
 
-  // Optimized System Prompt:
-  // Now requests a REWRITE ("idiomatic") instead of just an idiom tag.
-  const systemPrompt = `
-    Role: English Coach.
-    Task: Transcribe audio (en-US), merge fillers, and improve the user's English.
-    IMPORTANT: Return strict JSON only. Escape all double quotes inside strings.
-    Output JSON ONLY:
-    {
-      "language": "en-US",
-      "meta": { "wordCount": number, "estimatedLevel": "string", "speed": "string" },
-      "segments": [
-        {
-          "start": number, "end": number,
-          "text": "Original text (combine short phrases)",
-          "translation": "Chinese translation",
-          "idiomatic": "Rewrite the original text to sound like a native American speaker (natural, colloquial or professional as appropriate).",
-          "idiomExplanation": "Brief Chinese explanation of the improvement (e.g. better word choice)."
-        }
-      ]
+  onProgress?.({ stage: 'reading', progress: 0, message: 'Reading file...' });
+  // Videos are never uploaded: only their audio track, re-encoded below
+  const isVideo = isVideoFile(file);
+  if (isVideo && file.size > MAX_VIDEO_BYTES) {
+    const megabytes = (bytes: number) => Math.round(bytes / (1024 * 1024));
+    throw new PayloadTooLargeError(`This video is ${megabytes(file.size)} MB; videos up to ${megabytes(MAX_VIDEO_BYTES)} MB can be imported. Import its audio track instead.`);
+  }
+  let audio: DecodedAudio | null = null;
+  try {
+    audio = await decodeAudioFile(file);
+  } catch (e) {
+    if (isVideo) throw new UnsupportedFormatError("The browser couldn't extract the audio track from this video.", { cause: e });
+    // Some codecs can't be decoded by the browser; Gemini may still accept the raw file
+    console.warn("Local audio decoding failed, sending the file as a single request", e);
+  }
+  throwIfCancelled(signal);
+
+  const chunks = audio ? planChunks(audio) : [];
+
+  // Short recordings: upload the original file as-is (for videos, just the audio track)
+  if (!audio || chunks.length <= 1) {
+    onProgress?.({ stage: 'uploading', progress: 0.1, message: 'Uploading and transcribing...' });
+    const parsed = isVideo && audio
+      ? await transcribeClip(encodeWav(audio.samples, audio.sampleRate), 'audio/wav', languages, audio.duration, signal)
+      : await transcribeClip(file, mimeType, languages, audio?.duration, signal);
+    const warnings = [...(parsed.warnings || [])];
+    // Enrich in the detected language when it was auto-detected
+    languages = { ...languages, sourceLanguage: parsed.language };
+    parsed.segments = await postProcessSegments(parsed.segments, warnings, audio, languages, onProgress, signal);
+    parsed.nativeLanguage = languages.nativeLanguage;
+    if (warnings.length) parsed.warnings = warnings;
+    onProgress?.({ stage: 'postprocessing', progress: 1, message: 'Done' });
+    return parsed;
+  }
+
+  let first: TranscriptionResponse | null = null;
+  let segments: TranscriptionSegment[] = [];
+  const warnings: string[] = [];
+
+  for (let i = 0; i < chunks.length; i++) {
+    throwIfCancelled(signal);
+    const chunk = chunks[i];
+    const chunkProgress = 0.1 + ((ENRICHMENT_PROGRESS_START - 0.1) * i) / chunks.length;
+
+    onProgress?.({ stage: 'encoding', progress: chunkProgress, message: `Encoding part ${i + 1} of ${chunks.length}...`, chunkIndex: i, chunkCount: chunks.length });
+    const wav = encodeWav(sliceChunk(audio, chunk), audio.sampleRate);
+
+    onProgress?.({ stage: 'transcribing', progress: chunkProgress, message: `Transcribing part ${i + 1} of ${chunks.length}...`, chunkIndex: i, chunkCount: chunks.length });
+    const part = await transcribeClip(wav, 'audio/wav', languages, chunk.end - chunk.start, signal);
+    if (!first) {
+      first = part;
+      // Keep later chunks (and enrichment) on the language detected in the first one
+      languages = { ...languages, sourceLanguage: part.language };
     }
-  `;
-
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      language: { type: Type.STRING },
-      meta: {
-        type: Type.OBJECT,
-        properties: {
-            wordCount: { type: Type.NUMBER },
-            estimatedLevel: { type: Type.STRING },
-            speed: { type: Type.STRING }
-        }
-      },
-      segments: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            start: { type: Type.NUMBER },
-            end: { type: Type.NUMBER },
-            text: { type: Type.STRING },
-            translation: { type: Type.STRING },
-            idiomatic: { type: Type.STRING },
-            idiomExplanation: { type: Type.STRING },
-          },
-          required: ["start", "end", "text", "translation", "idiomatic", "idiomExplanation"],
-        },
-      },
+    warnings.push(...(part.warnings || []).map(w => `Part ${i + 1}: ${w}`));
+    segments = stitchChunkSegments(segments, part.segments, chunk, i > 0 ? chunks[i - 1] : null);
+    onPartialSegments?.(mergeShortSegments(segments, languages.sourceLanguage));
+  }
+
+  const finalSegments = await postProcessSegments(segments, warnings, audio, languages, onProgress, signal);
+  const wordCount = segments.reduce((sum, s) => sum + countWords(s.text, languages.sourceLanguage), 0);
+  const result: TranscriptionResponse = {
+    language: first!.language,
+    meta: {
+      wordCount,
+      estimatedLevel: first!.meta.estimatedLevel,
+      speed: `${Math.round(wordCount / (audio.duration / 60))} wpm`,
     },
-    required: ["language", "segments", "meta"],
+    segments: finalSegments,
+    nativeLanguage: languages.nativeLanguage,
+    ...(warnings.length ? { warnings } : {}),
   };
+  onProgress?.({ stage: 'postprocessing', progress: 1, message: 'Done' });
+  return result;
+};
 
-  return withRetry(async () => {
-    const response = await getAi().models.generateContent({
-      model: TRANSCRIPTION_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: mimeType, // Use the corrected MIME type
-              data: base64Audio
-            }
-          },
-          { text: "Generate JSON." }
-        ]
-      },
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        maxOutputTokens: 8192, // Increase limit to prevent truncated JSON
-      }
-    });
+// Subtitles ending this much later than the audio probably belong to another file
+const SUBTITLE_OVERRUN_TOLERANCE = 5;
+
+/**
+ * Builds a transcript from existing subtitles (SRT, VTT or LRC) instead of transcribing:
+ * cue timing and text are kept as they are, only translations and native rewrites are
+ * requested, and `meta` is computed locally.
+ */
+export const importSubtitles = async (audioFile: File, subtitleFile: File, options: TranscribeOptions = {}): Promise<TranscriptionResponse> => {
+  const { onProgress, signal } = options;
+  const format = getSubtitleFormat(subtitleFile.name);
+  if (!format) throw new Error(`Unsupported subtitle file: ${subtitleFile.name}. Use SRT, VTT or LRC.`);
 
-    if (response.text) {
-      // Use helper to handle markdown wrapping or simple cleanups
-      const parsed = cleanAndParseJson<TranscriptionResponse>(response.text);
-      parsed.segments = mergeShortSegments(parsed.segments);
-      return parsed;
+  onProgress?.({ stage: 'reading', progress: 0, message: 'Reading subtitles...' });
+  const parsed = parseSubtitles(await subtitleFile.text(), format);
+  if (parsed.segments.length === 0) throw new Error(`No subtitles found in ${subtitleFile.name}.`);
+
+  let duration = parsed.segments[parsed.segments.length - 1].end;
+  const warnings: string[] = [];
+  try {
+    const audio = await decodeAudioFile(audioFile);
+    if (duration > audio.duration + SUBTITLE_OVERRUN_TOLERANCE) {
+      warnings.push(`The subtitles run ${Math.round(duration - audio.duration)}s past the end of the audio. Check that they belong to this recording.`);
     }
-    throw new Error("Empty response from Gemini");
-  });
+    duration = audio.duration;
+  } catch (e) {
+    console.warn("Could not decode the audio; speed is estimated from the subtitles", e);
+  }
+  throwIfCancelled(signal);
+
+  // Without a chosen language, use what the file declares or what its script gives away
+  let languages = resolveLanguages({ nativeLanguage: options.nativeLanguage, sourceLanguage: options.sourceLanguage });
+  if (languages.sourceLanguage === AUTO_DETECT) {
+    const detected = parsed.language ? getSourceLanguage(parsed.language).code : guessLanguageFromScript(parsed.segments);
+    if (!detected) warnings.push("The subtitle language couldn't be detected and English was assumed. Choose the language before importing to change it.");
+    languages = { ...languages, sourceLanguage: detected || 'en-US' };
+  }
+
+  const segments = parsed.segments.map(segment => ensureWordTimings(segment, languages.sourceLanguage));
+  const enriched = await runEnrichmentPhase(segments, warnings, languages, onProgress, signal);
+  const wordCount = segments.reduce((sum, s) => sum + countWords(s.text, languages.sourceLanguage), 0);
+
+  onProgress?.({ stage: 'postprocessing', progress: 1, message: 'Done' });
+  return {
+    language: languages.sourceLanguage,
+    meta: {
+      wordCount,
+      estimatedLevel: 'N/A', // Graded by the model only when it transcribes
+      speed: duration > 0 ? `${Math.round(wordCount / (duration / 60))} wpm` : 'N/A',
+    },
+    segments: enriched,
+    nativeLanguage: languages.nativeLanguage,
+    ...(warnings.length ? { warnings } : {}),
+  };
 };
 
+// Keeps each enrichment response well below the output token limit
+const ENRICHMENT_BATCH_SIZE = 40;
+
+// Failures that may be caused by the batch's content, so single items can still succeed
+const ITEM_RETRY_KINDS: AiErrorKind[] = ['invalid_response', 'safety', 'payload_too_large', 'unknown'];
+// Failures that no further request can fix right now
+const FATAL_KINDS: AiErrorKind[] = ['api_key', 'quota'];
+
+interface BatchEnrichmentResult {
+  enrichments: (SegmentEnrichment | null)[]; // null where enrichment failed
+  lastError?: AiServiceError;
+}
+
 /**
- * Text-to-Speech.
- * NOTE: Strictly requires Gemini (Multimodal).
+ * Runs enrichment over any number of inputs, one request per batch (each with the
+ * provider fallback). Items a batch failed on or returned empty are retried one by one;
+ * whatever still fails comes back as null instead of failing the whole run.
  */
-export const generateSpeech = async (text: string): Promise<string> => {
-  return withRetry(async () => {
-    const response = await getAi().models.generateContent({
-      model: TTS_MODEL,
-      contents: { parts: [{ text }] },
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' }, 
-          },
-        },
-      },
-    });
+const enrichInBatches = async (
+  inputs: EnrichmentInput[],
+  languages: LanguageSettings,
+  signal?: AbortSignal,
+  onBatch?: (done: number, total: number) => void
+): Promise<BatchEnrichmentResult> => {
+  const enrichments: (SegmentEnrichment | null)[] = [];
+  let lastError: AiServiceError | undefined;
+
+  const enrich = async (items: EnrichmentInput[]) => {
+    try {
+      return await runWithProviders('enrichment', provider => provider.enrich!(items, languages, signal), signal);
+    } catch (e) {
+      if (isCancelled(e)) throw e;
+      lastError = toAiError(e);
+      console.warn(`Enrichment of ${items.length} segment(s) failed`, lastError);
+      return null;
+    }
+  };
+
+  for (let i = 0; i < inputs.length; i += ENRICHMENT_BATCH_SIZE) {
+    throwIfCancelled(signal);
+    const batch = inputs.slice(i, i + ENRICHMENT_BATCH_SIZE);
+    if (lastError && FATAL_KINDS.includes(lastError.kind)) {
+      enrichments.push(...batch.map(() => null));
+      continue;
+    }
 
-    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (audioData) return audioData;
-    throw new Error("No audio data returned");
+    const results: (SegmentEnrichment | null)[] = (await enrich(batch)) || batch.map(() => null);
+    const batchFailed = results.every(r => r === null);
+    if (!batchFailed || (batch.length > 1 && lastError && ITEM_RETRY_KINDS.includes(lastError.kind))) {
+      for (let j = 0; j < batch.length; j++) {
+        if (results[j]?.translation) continue;
+        if (lastError && FATAL_KINDS.includes(lastError.kind)) break;
+        throwIfCancelled(signal);
+        const single = await enrich([batch[j]]);
+        results[j] = single?.[0]?.translation ? single[0] : null;
+      }
+    }
+    enrichments.push(...results.map(r => (r?.translation ? r : null)));
+    onBatch?.(Math.min(inputs.length, i + ENRICHMENT_BATCH_SIZE), inputs.length);
+  }
+  return { enrichments, lastError };
+};
+
+/**
+ * Fills translation / native rewrite for segments that don't have them yet,
+ * e.g. when the transcription provider only returns plain text.
+ * Segments that still can't be enriched are returned with `enrichmentFailed` set.
+ */
+export const enrichSegments = async (
+  segments: TranscriptionSegment[],
+  languages: Partial<LanguageSettings> = {},
+  signal?: AbortSignal,
+  onBatch?: (done: number, total: number) => void
+): Promise<TranscriptionSegment[]> => {
+  const missing = segments
+    .map((segment, index) => ({ segment, index }))
+    .filter(({ segment }) => !segment.translation?.trim() || !segment.idiomatic?.trim());
+  if (missing.length === 0) return segments;
+
+  const { enrichments } = await enrichInBatches(
+    missing.map(({ segment }) => ({ text: segment.text, idiomatic: segment.idiomatic || undefined })),
+    resolveLanguages(languages),
+    signal,
+    onBatch
+  );
+
+  const result = [...segments];
+  missing.forEach(({ segment, index }, i) => {
+    const enrichment = enrichments[i];
+    result[index] = enrichment
+      ? {
+          ...segment,
+          translation: segment.translation || enrichment.translation,
+          idiomatic: segment.idiomatic || enrichment.idiomatic,
+          idiomExplanation: segment.idiomExplanation || enrichment.idiomExplanation,
+          enrichmentFailed: undefined,
+        }
+      : { ...segment, enrichmentFailed: true };
   });
+  return result;
 };
 
 /**
- * Scores user pronunciation.
- * NOTE: Strictly requires Gemini (Multimodal) to listen to user audio.
+ * Re-translates an existing transcription into another native language without
+ * touching the audio. Native rewrites are kept; only translations and explanations change.
+ * Segments that fail lose their old-language translation and are marked for retry;
+ * if every segment fails the transcript is left alone and the error is thrown.
  */
-export const scorePronunciation = async (userAudio: Blob, referenceText: string): Promise<PronunciationScore> => {
-  const base64Audio = await fileToBase64(userAudio);
-  
-  // AudioRecorder produces audio/webm, which Gemini handles well.
-  // But just in case, we can explicitely set it.
-  const mimeType = 'audio/webm';
+export const retranslateTranscription = async (
+  transcription: TranscriptionResponse,
+  nativeLanguage: string,
+  signal?: AbortSignal
+): Promise<TranscriptionResponse> => {
+  const { enrichments, lastError } = await enrichInBatches(
+    transcription.segments.map(s => ({ text: s.text, idiomatic: s.idiomatic || undefined })),
+    { nativeLanguage, sourceLanguage: transcription.language },
+    signal
+  );
+  if (enrichments.length > 0 && enrichments.every(e => e === null)) {
+    throw lastError || new InvalidResponseError("The AI returned no translations.");
+  }
 
-  const prompt = `
-    Listen to this user recording and compare it to the text: "${referenceText}".
-    Grade the pronunciation accuracy from 0 to 100.
-    Provide brief feedback.
-    Return JSON: { score: number, feedback: string, accuracy: 'good'|'average'|'poor' }
-  `;
-
-  const responseSchema = {
-    type: Type.OBJECT,
-    properties: {
-      score: { type: Type.NUMBER },
-      feedback: { type: Type.STRING },
-      accuracy: { type: Type.STRING, enum: ['good', 'average', 'poor'] }
-    },
-    required: ["score", "feedback", "accuracy"]
+  return {
+    ...transcription,
+    nativeLanguage,
+    segments: transcription.segments.map((segment, i) => {
+      const enrichment = enrichments[i];
+      return enrichment
+        ? { ...segment, ...enrichment, enrichmentFailed: undefined }
+        : { ...segment, translation: '', idiomExplanation: undefined, enrichmentFailed: true };
+    }),
   };
+};
 
-  return withRetry(async () => {
-    const response = await getAi().models.generateContent({
-      model: TRANSCRIPTION_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: mimeType, data: base64Audio } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-      }
-    });
+export const REWRITE_REGISTERS: RewriteRegister[] = ['casual', 'professional', 'concise'];
 
-    if (response.text) {
-      // Use cleanAndParseJson for consistency
-      return cleanAndParseJson<PronunciationScore>(response.text);
-    }
-    throw new Error("Scoring failed");
-  });
+/**
+ * Asks for alternative native rewrites of one segment, one per register.
+ * Only the segment's text and its neighbours are sent, never the audio.
+ */
+export const suggestRewrites = async (
+  segments: TranscriptionSegment[],
+  index: number,
+  languages: Partial<LanguageSettings> = {},
+  signal?: AbortSignal,
+  registers: RewriteRegister[] = REWRITE_REGISTERS
+): Promise<RewriteAlternative[]> => {
+  const request = {
+    text: segments[index].text,
+    previous: segments[index - 1]?.text,
+    next: segments[index + 1]?.text,
+    registers,
+  };
+  const resolved = resolveLanguages(languages);
+  const alternatives = await runWithProviders('rewrite', provider => provider.suggestRewrites!(request, resolved, signal), signal);
+  if (alternatives.length === 0) throw new InvalidResponseError("The AI returned no usable rewrites.");
+  return alternatives;
+};
+
+/**
+ * Text-to-Speech. Returns base64 24kHz mono PCM.
+ */
+export const generateSpeech = async (text: string, signal?: AbortSignal): Promise<string> => {
+  return runWithProviders('tts', provider => provider.synthesizeSpeech!(text, signal), signal);
+};
+
+/**
+ * Scores user pronunciation.
+ */
+export const scorePronunciation = async (userAudio: Blob, referenceText: string, signal?: AbortSignal): Promise<PronunciationScore> => {
+  // AudioRecorder produces audio/webm
+  const mimeType = 'audio/webm';
+
+  return runWithProviders('scoring', provider => provider.scorePronunciation!(userAudio, mimeType, referenceText, signal), signal);
 };
 
 /**
  * Get Word Definition.
- * STRATEGY: Try Gemini -> Fail -> Try DeepSeek.
+ * STRATEGY: Try the configured providers in order (Gemini -> DeepSeek by default).
  */
-export const getWordDefinition = async (word: string, contextSentence: string): Promise<WordDefinition> => {
-  const prompt = `Define "${word}" in context: "${contextSentence}". Return JSON with: word, definition (English), example, phonetic.`;
-  
-  // 1. Try Google Gemini First
-  try {
-    const responseSchema = {
-        type: Type.OBJECT,
-        properties: {
-        word: { type: Type.STRING },
-        definition: { type: Type.STRING },
-        example: { type: Type.STRING },
-        phonetic: { type: Type.STRING },
-        },
-        required: ["word", "definition", "example"],
-    };
+export const getWordDefinition = async (
+  word: string,
+  contextSentence: string,
+  languages: Partial<LanguageSettings> = {},
+  signal?: AbortSignal
+): Promise<WordDefinition> => {
+  const resolved = resolveLanguages(languages);
+  return runWithProviders('definition', provider => provider.defineWord!(word, contextSentence, resolved, signal), signal);
+};
 
-    return await withRetry(async () => {
-        const response = await getAi().models.generateContent({
-            model: "gemini-2.5-flash",
-            contents: prompt,
-            config: { responseMimeType: "application/json", responseSchema }
-        });
-        // Use cleanAndParseJson for consistency
-        return cleanAndParseJson<WordDefinition>(response.text!);
-    });
-    
-  } catch (geminiError) {
-      console.warn("Gemini definition failed, attempting DeepSeek fallback...", geminiError);
-      
-      // 2. Fallback to DeepSeek if configured
-      if (process.env.DEEPSEEK_API_KEY) {
-          try {
-              const systemPrompt = "You are an English dictionary API. Output purely JSON.";
-              const responseText = await callDeepSeek(systemPrompt, prompt);
-              return cleanAndParseJson<WordDefinition>(responseText);
-          } catch (deepSeekError) {
-              console.error("DeepSeek fallback also failed:", deepSeekError);
-              throw deepSeekError; // Throw the DeepSeek error if both fail
-          }
-      }
-      
-      throw geminiError; // If no DeepSeek key, throw original error
-  }
-};
\ No newline at end of file
+/**
+ * Checks the API key (and models) of a provider, for the Settings panel.
+ */
+export const testConnection = async (provider: ProviderId, signal?: AbortSignal): Promise<string> => {
+  return testProviderConnection(provider, signal);
+};
@@ -1,8 +1,10 @@
 import { HistoryEntry, TranscriptionResponse } from '../types';
+import { isVideoFile } from './audioUtils';
 
 const DB_NAME = 'LinguaSyncDB';
 const STORE_NAME = 'history';
-const DB_VERSION = 1;
+const DB_VERSION = 2;
+const CACHE_KEY_INDEX = 'cacheKey';
 
 /**
  * Open (or create) the IndexedDB
@@ -13,8 +15,12 @@ const openDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const store = db.objectStoreNames.contains(STORE_NAME)
+        ? request.transaction!.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      // v2: look up earlier transcriptions of the same audio
+      if (!store.indexNames.contains(CACHE_KEY_INDEX)) {
+        store.createIndex(CACHE_KEY_INDEX, CACHE_KEY_INDEX, { unique: false });
       }
     };
 
@@ -23,26 +29,103 @@ const openDB = (): Promise<IDBDatabase> => {
   });
 };
 
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+// Entry ids are timestamps; background imports can finish in the same millisecond
+let lastId = 0;
+const newEntryId = () => {
+  lastId = Math.max(Date.now(), lastId + 1);
+  return lastId.toString();
+};
+
 export const historyDb = {
   /**
-   * Save a session to history
+   * Save a session to history. Resolves with the stored entry.
    */
-  save: async (file: File, transcription: TranscriptionResponse) => {
+  save: async (
+    file: File,
+    transcription: TranscriptionResponse,
+    cache: Pick<HistoryEntry, 'contentHash' | 'cacheKey'> = {}
+  ): Promise<HistoryEntry> => {
     const db = await openDB();
     const entry: HistoryEntry = {
-      id: Date.now().toString(),
+      id: newEntryId(),
       fileName: file.name,
       date: Date.now(),
       audioBlob: file, // File is a specific type of Blob
-      transcription
+      ...(isVideoFile(file) ? { isVideo: true } : {}),
+      transcription,
+      ...cache
     };
 
-    return new Promise<void>((resolve, reject) => {
+    return new Promise<HistoryEntry>((resolve, reject) => {
       const tx = db.transaction(STORE_NAME, 'readwrite');
       const store = tx.objectStore(STORE_NAME);
       const request = store.put(entry);
       
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        resolve(entry);
+        notifyListeners();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  /**
+   * Update fields of an existing history item (e.g. an edited transcription)
+   */
+  update: async (id: string, changes: Partial<Omit<HistoryEntry, 'id'>>) => {
+    const db = await openDB();
+    return new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readwrite');
+      const store = tx.objectStore(STORE_NAME);
+      const getRequest = store.get(id);
+
+      getRequest.onsuccess = () => {
+        const existing = getRequest.result as HistoryEntry | undefined;
+        if (!existing) {
+          reject(new Error(`History entry ${id} not found`));
+          return;
+        }
+        const putRequest = store.put({ ...existing, ...changes, id });
+        putRequest.onsuccess = () => {
+          resolve();
+          notifyListeners();
+        };
+        putRequest.onerror = () => reject(putRequest.error);
+      };
+      getRequest.onerror = () => reject(getRequest.error);
+    });
+  },
+
+  /**
+   * A single history item, if it still exists
+   */
+  get: async (id: string): Promise<HistoryEntry | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const request = tx.objectStore(STORE_NAME).get(id);
+
+      request.onsuccess = () => resolve(request.result as HistoryEntry | undefined);
+      request.onerror = () => reject(request.error);
+    });
+  },
+
+  /**
+   * Most recent entry transcribed from the same audio with the same settings, if any
+   */
+  findByCacheKey: async (cacheKey: string): Promise<HistoryEntry | undefined> => {
+    const db = await openDB();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const request = tx.objectStore(STORE_NAME).index(CACHE_KEY_INDEX).getAll(cacheKey);
+
+      request.onsuccess = () => {
+        const results = request.result as HistoryEntry[];
+        resolve(results.sort((a, b) => b.date - a.date)[0]);
+      };
       request.onerror = () => reject(request.error);
     });
   },
@@ -77,8 +160,20 @@ export const historyDb = {
       const store = tx.objectStore(STORE_NAME);
       const request = store.delete(id);
 
-      request.onsuccess = () => resolve();
+      request.onsuccess = () => {
+        resolve();
+        notifyListeners();
+      };
       request.onerror = () => reject(request.error);
     });
+  },
+
+  /**
+   * Calls `listener` after entries are added, updated or deleted (e.g. by the import queue).
+   * Returns an unsubscribe function.
+   */
+  subscribe: (listener: () => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
   }
 };
@@ -0,0 +1,147 @@
+import { LanguageSettings, ProcessingProgress } from '../types';
+import { transcribeAudio, importSubtitles } from './geminiService';
+import { historyDb } from './historyDb';
+import { hashBlob, buildCacheKey } from './contentHash';
+import { loadSettings } from './settings';
+import { AiServiceError, toAiError, isCancelled, throwIfCancelled } from './errors';
+import { setSignalUsageEntry, moveEntryUsage, forgetEntryUsage } from './usage';
+
+export type ImportStatus = 'queued' | 'processing' | 'failed' | 'done';
+
+export interface ImportItem {
+  id: string;
+  file: File;
+  subtitles?: File; // Same base name as the file, e.g. "ep1.mp4" + "ep1.srt"
+  settings: LanguageSettings; // As they were when queued
+  status: ImportStatus;
+  progress?: ProcessingProgress;
+  error?: AiServiceError;
+  entryId?: string; // History entry, once done
+  wasInHistory?: boolean; // Done without work: the same file was transcribed before
+}
+
+// Files transcribed at the same time. More mostly runs into rate limits.
+const MAX_CONCURRENT_IMPORTS = 2;
+
+let items: ImportItem[] = [];
+let nextId = 0;
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<() => void>();
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const updateItem = (id: string, changes: Partial<ImportItem>) => {
+  items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+  notifyListeners();
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '').toLowerCase();
+
+const runItem = async (item: ImportItem) => {
+  const controller = new AbortController();
+  controllers.set(item.id, controller);
+  const { signal } = controller;
+  // Filed under a temporary key until the entry exists, like the foreground session
+  const usageKey = `pending:import-${item.id}`;
+  setSignalUsageEntry(signal, usageKey);
+  updateItem(item.id, { status: 'processing', error: undefined, progress: undefined });
+
+  try {
+    const contentHash = await hashBlob(item.file);
+    const subtitlesHash = item.subtitles ? await hashBlob(item.subtitles) : undefined;
+    // Providers pick the connection mode when the request is made, so the key uses the current one
+    const cache = { contentHash, cacheKey: buildCacheKey(contentHash, { ...item.settings, apiMode: loadSettings().apiMode }, subtitlesHash) };
+    const existing = await historyDb.findByCacheKey(cache.cacheKey);
+    throwIfCancelled(signal);
+    if (existing) {
+      updateItem(item.id, { status: 'done', entryId: existing.id, wasInHistory: true });
+      return;
+    }
+
+    const options = {
+      nativeLanguage: item.settings.nativeLanguage,
+      sourceLanguage: item.settings.sourceLanguage,
+      onProgress: (progress: ProcessingProgress) => updateItem(item.id, { progress }),
+      signal,
+    };
+    const result = item.subtitles
+      ? await importSubtitles(item.file, item.subtitles, options)
+      : await transcribeAudio(item.file, options);
+    throwIfCancelled(signal);
+
+    const entry = await historyDb.save(item.file, result, cache);
+    moveEntryUsage(usageKey, entry.id);
+    updateItem(item.id, { status: 'done', entryId: entry.id, progress: undefined });
+  } catch (e) {
+    forgetEntryUsage(usageKey);
+    // Removed from the queue while running
+    if (isCancelled(e) || signal.aborted) return;
+    console.error(`Import of ${item.file.name} failed`, e);
+    updateItem(item.id, { status: 'failed', error: toAiError(e), progress: undefined });
+  } finally {
+    controllers.delete(item.id);
+    processQueue();
+  }
+};
+
+const processQueue = () => {
+  let running = items.filter(item => item.status === 'processing').length;
+  for (const item of items) {
+    if (running >= MAX_CONCURRENT_IMPORTS) break;
+    if (item.status !== 'queued') continue;
+    running++;
+    runItem(item);
+  }
+};
+
+/**
+ * Queues audio/video files for transcription in the background. Subtitle files among
+ * them are attached to the media file with the same base name. Each finished file is
+ * saved to history.
+ */
+export const enqueueImports = (files: File[], settings: ImportItem['settings'], subtitleFiles: File[] = []) => {
+  const added: ImportItem[] = files.map(file => ({
+    id: String(++nextId),
+    file,
+    subtitles: subtitleFiles.find(s => baseName(s.name) === baseName(file.name)),
+    settings: { sourceLanguage: settings.sourceLanguage, nativeLanguage: settings.nativeLanguage },
+    status: 'queued',
+  }));
+  items = [...items, ...added];
+  notifyListeners();
+  processQueue();
+};
+
+/**
+ * Queues a failed item again.
+ */
+export const retryImport = (id: string) => {
+  if (!items.some(item => item.id === id && item.status === 'failed')) return;
+  updateItem(id, { status: 'queued', error: undefined });
+  processQueue();
+};
+
+/**
+ * Removes an item, cancelling it if it's being processed.
+ */
+export const removeImport = (id: string) => {
+  controllers.get(id)?.abort();
+  items = items.filter(item => item.id !== id);
+  notifyListeners();
+  processQueue();
+};
+
+export const clearFinishedImports = () => {
+  items = items.filter(item => item.status !== 'done');
+  notifyListeners();
+};
+
+export const getImportItems = (): ImportItem[] => items;
+
+/**
+ * Calls `listener` after every change to the queue. Returns an unsubscribe function.
+ */
+export const subscribeImports = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,73 @@
+export interface LanguageOption {
+  code: string;
+  name: string;  // English name, used in prompts
+  label: string; // Native name, shown in the UI
+}
+
+// Learner languages we offer for translations and explanations
+export const NATIVE_LANGUAGES: LanguageOption[] = [
+  { code: 'zh-CN', name: 'Simplified Chinese', label: '简体中文' },
+  { code: 'zh-TW', name: 'Traditional Chinese', label: '繁體中文' },
+  { code: 'es', name: 'Spanish', label: 'Español' },
+  { code: 'ja', name: 'Japanese', label: '日本語' },
+  { code: 'pt-BR', name: 'Brazilian Portuguese', label: 'Português (Brasil)' },
+  { code: 'ko', name: 'Korean', label: '한국어' },
+  { code: 'fr', name: 'French', label: 'Français' },
+  { code: 'de', name: 'German', label: 'Deutsch' },
+];
+
+// Entries created before the setting existed were generated in Chinese
+export const DEFAULT_NATIVE_LANGUAGE = 'zh-CN';
+
+export const getLanguageName = (code: string): string =>
+  NATIVE_LANGUAGES.find(l => l.code === code)?.name || getSourceLanguage(code).name;
+
+export interface SourceLanguage extends LanguageOption {
+  flag: string;
+  rewriteStyle: string; // How the "native rewrite" should sound
+}
+
+// Let the model detect the spoken language
+export const AUTO_DETECT = 'auto';
+
+// Languages learners study (the language spoken in the audio)
+export const SOURCE_LANGUAGES: SourceLanguage[] = [
+  { code: 'en-US', name: 'American English', label: 'English (US)', flag: '🇺🇸', rewriteStyle: 'a native American speaker (natural, colloquial or professional as appropriate)' },
+  { code: 'en-GB', name: 'British English', label: 'English (UK)', flag: '🇬🇧', rewriteStyle: 'a native British speaker (natural, colloquial or professional as appropriate)' },
+  { code: 'fr-FR', name: 'French', label: 'Français', flag: '🇫🇷', rewriteStyle: 'natural Parisian French' },
+  { code: 'es-ES', name: 'Spanish', label: 'Español (España)', flag: '🇪🇸', rewriteStyle: 'natural Castilian Spanish as spoken in Madrid' },
+  { code: 'es-MX', name: 'Mexican Spanish', label: 'Español (México)', flag: '🇲🇽', rewriteStyle: 'natural Mexican Spanish as spoken in Mexico City' },
+  { code: 'de-DE', name: 'German', label: 'Deutsch', flag: '🇩🇪', rewriteStyle: 'natural standard German as spoken in Berlin' },
+  { code: 'it-IT', name: 'Italian', label: 'Italiano', flag: '🇮🇹', rewriteStyle: 'natural standard Italian' },
+  { code: 'pt-BR', name: 'Brazilian Portuguese', label: 'Português (Brasil)', flag: '🇧🇷', rewriteStyle: 'natural Brazilian Portuguese as spoken in São Paulo' },
+  { code: 'ja-JP', name: 'Japanese', label: '日本語', flag: '🇯🇵', rewriteStyle: 'natural Tokyo Japanese' },
+  { code: 'zh-CN', name: 'Mandarin Chinese', label: '普通话', flag: '🇨🇳', rewriteStyle: 'natural Mandarin as spoken in Beijing' },
+  { code: 'ko-KR', name: 'Korean', label: '한국어', flag: '🇰🇷', rewriteStyle: 'natural Seoul Korean' },
+];
+
+/**
+ * Looks up a source language by BCP-47 code, primary subtag ("fr") or English name
+ * ("french", as returned by Whisper). Unknown languages get a generic entry.
+ */
+export const getSourceLanguage = (codeOrName: string): SourceLanguage => {
+  const value = (codeOrName || '').trim().toLowerCase();
+  if (!value) return SOURCE_LANGUAGES[0];
+  const primary = value.split(/[-_]/)[0];
+  return (
+    SOURCE_LANGUAGES.find(l => l.code.toLowerCase() === value) ||
+    SOURCE_LANGUAGES.find(l => l.code.toLowerCase().split('-')[0] === primary) ||
+    SOURCE_LANGUAGES.find(l => l.name.toLowerCase().endsWith(value)) || {
+      code: codeOrName,
+      name: codeOrName,
+      label: codeOrName,
+      flag: '🌐',
+      rewriteStyle: `a native speaker of ${codeOrName}`,
+    }
+  );
+};
+
+// Scripts written without spaces between words
+const UNSPACED_LANGUAGES = ['ja', 'zh', 'th', 'lo', 'km', 'my'];
+
+export const isUnspacedLanguage = (code: string | undefined): boolean =>
+  !!code && UNSPACED_LANGUAGES.includes(code.toLowerCase().split(/[-_]/)[0]);
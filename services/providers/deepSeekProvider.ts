@@ -0,0 +1,118 @@
+import { WordDefinition, LanguageSettings, RewriteAlternative } from "../../types";
+import { loadCredentials } from "../credentials";
+import { ApiKeyError, errorFromResponse } from "../errors";
+import { recordUsage } from "../usage";
+import { AiCapability, AiProvider, SegmentEnrichment, EnrichmentInput, RewriteRequest } from "./types";
+import { cleanAndParseJson, withRetry } from "./shared";
+import { isProxyMode, postToProxy, getProxyHealth, PROXY_PROVIDER_NAME } from "./proxy";
+import {
+  buildEnrichmentSystemPrompt,
+  buildEnrichmentPrompt,
+  readEnrichmentItems,
+  buildRewriteSystemPrompt,
+  buildRewritePrompt,
+  readRewriteAlternatives,
+  buildDefinitionSystemPrompt,
+  buildDefinitionPrompt,
+} from "./prompts";
+
+const MODEL = "deepseek-chat";
+const API_BASE = "https://api.deepseek.com";
+
+// The parts of a chat completions response we read
+interface DeepSeekChatResponse {
+    choices: { message: { content: string } }[];
+    usage?: { prompt_tokens: number; completion_tokens: number };
+}
+
+const getApiKey = () => {
+    const key = loadCredentials().deepSeekApiKey.trim();
+    if (!key) {
+        throw new ApiKeyError("DeepSeek API key is missing. Add it in Settings.", { provider: 'DeepSeek' });
+    }
+    return key;
+};
+
+/**
+ * DeepSeek Client Helper. `capability` is only used to attribute the token usage.
+ * In proxy mode the request goes through `/deepseek` on the proxy, which adds the key.
+ */
+export const callDeepSeek = async (
+    systemPrompt: string,
+    userPrompt: string,
+    { signal, capability = 'definition' }: { signal?: AbortSignal; capability?: AiCapability } = {}
+): Promise<string> => {
+    const viaProxy = isProxyMode();
+    const deepSeekKey = viaProxy ? '' : getApiKey();
+    const body = {
+        model: MODEL,
+        messages: [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: userPrompt }
+        ],
+        stream: false,
+        response_format: { type: 'json_object' } // DeepSeek supports JSON mode
+    };
+
+    return withRetry(async () => {
+        let data: DeepSeekChatResponse;
+        if (viaProxy) {
+            data = await postToProxy<DeepSeekChatResponse>('deepseek', body, signal);
+        } else {
+            const response = await fetch(`${API_BASE}/chat/completions`, {
+                method: "POST",
+                headers: {
+                    "Content-Type": "application/json",
+                    "Authorization": `Bearer ${deepSeekKey}`
+                },
+                body: JSON.stringify(body),
+                signal,
+            });
+
+            if (!response.ok) {
+                throw await errorFromResponse(response, 'DeepSeek');
+            }
+            data = await response.json();
+        }
+
+        if (data.usage) {
+            recordUsage({ capability, provider: 'DeepSeek', model: MODEL, inputTokens: data.usage.prompt_tokens, outputTokens: data.usage.completion_tokens, signal });
+        }
+        return data.choices[0].message.content;
+    }, { signal });
+};
+
+/**
+ * Text-only provider: DeepSeek cannot handle audio, so no transcription, TTS or scoring.
+ */
+export const deepSeekProvider: AiProvider = {
+  id: 'deepseek',
+  name: 'DeepSeek',
+  isConfigured: () => isProxyMode() || !!loadCredentials().deepSeekApiKey.trim(),
+
+  testConnection: async (signal?: AbortSignal): Promise<string> => {
+    if (isProxyMode()) {
+      const health = await getProxyHealth(signal);
+      if (!health.deepseek) throw new ApiKeyError("The proxy has no DeepSeek API key configured.", { provider: PROXY_PROVIDER_NAME });
+      return "Connected to the proxy; it has a DeepSeek API key.";
+    }
+    const response = await fetch(`${API_BASE}/models`, { headers: { "Authorization": `Bearer ${getApiKey()}` }, signal });
+    if (!response.ok) throw await errorFromResponse(response, 'DeepSeek');
+    return `Connected (${MODEL}).`;
+  },
+
+  enrich: async (items: EnrichmentInput[], languages: LanguageSettings, signal?: AbortSignal): Promise<SegmentEnrichment[]> => {
+    const responseText = await callDeepSeek(buildEnrichmentSystemPrompt(languages), buildEnrichmentPrompt(items), { signal, capability: 'enrichment' });
+    return readEnrichmentItems(items, cleanAndParseJson(responseText));
+  },
+
+  suggestRewrites: async (request: RewriteRequest, languages: LanguageSettings, signal?: AbortSignal): Promise<RewriteAlternative[]> => {
+    const responseText = await callDeepSeek(buildRewriteSystemPrompt(languages), buildRewritePrompt(request), { signal, capability: 'rewrite' });
+    return readRewriteAlternatives(request.registers, cleanAndParseJson(responseText));
+  },
+
+  defineWord: async (word: string, contextSentence: string, languages: LanguageSettings, signal?: AbortSignal): Promise<WordDefinition> => {
+    const responseText = await callDeepSeek(buildDefinitionSystemPrompt(languages), buildDefinitionPrompt(word, contextSentence, languages), { signal, capability: 'definition' });
+    return cleanAndParseJson<WordDefinition>(responseText);
+  },
+};
@@ -0,0 +1,412 @@
+import { GoogleGenAI, Type, Modality, MediaModality, GenerateContentResponse, GenerateContentParameters, FinishReason } from "@google/genai";
+import { TranscriptionResponse, WordDefinition, PronunciationScore, LanguageSettings, RewriteAlternative } from "../../types";
+import { loadSettings } from "../settings";
+import { loadCredentials } from "../credentials";
+import { ApiKeyError, SafetyBlockError, InvalidResponseError, toAiError } from "../errors";
+import { recordUsage } from "../usage";
+import { AiCapability, AiProvider, SegmentEnrichment, EnrichmentInput, RewriteRequest } from "./types";
+import { withRetry, cleanAndParseJson, parseJsonLenient, fileToBase64 } from "./shared";
+import { isProxyMode, generateViaProxy, getProxyHealth, PROXY_PROVIDER_NAME } from "./proxy";
+import {
+  buildEnrichmentSystemPrompt,
+  buildEnrichmentPrompt,
+  readEnrichmentItems,
+  buildRewriteSystemPrompt,
+  buildRewritePrompt,
+  readRewriteAlternatives,
+  buildDefinitionPrompt,
+  buildDefinitionSystemPrompt,
+  describeSourceLanguage,
+} from "./prompts";
+
+// Gemini counts audio input at a fixed rate, which gives us the processed duration
+const AUDIO_TOKENS_PER_SECOND = 32;
+
+/**
+ * Lazy initialization of the AI client.
+ */
+const getAi = () => {
+  const apiKey = loadCredentials().geminiApiKey.trim();
+  if (!apiKey) {
+    throw new ApiKeyError("Gemini API key is missing. Add it in Settings.", { provider: 'Google Gemini' });
+  }
+  return new GoogleGenAI({ apiKey });
+};
+
+// Models are chosen in Settings
+const getModels = () => {
+  const { transcriptionModel, ttsModel, textModel } = loadSettings();
+  return { transcriptionModel, ttsModel, textModel };
+};
+
+/**
+ * generateContent directly with the user's key, or through the proxy (which holds the key).
+ */
+const generate = async (capability: AiCapability, params: GenerateContentParameters): Promise<GenerateContentResponse> => {
+  if (!isProxyMode()) return getAi().models.generateContent(params);
+  // Same class as the SDK returns, so `.text` and the other helpers keep working
+  return Object.assign(new GenerateContentResponse(), await generateViaProxy(capability, params));
+};
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+];
+
+/**
+ * Throws a SafetyBlockError when Gemini refused to answer (the text is then empty).
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const reason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason)) {
+    throw new SafetyBlockError(`Gemini blocked the response (${reason}).`, { provider: 'Google Gemini' });
+  }
+};
+
+/**
+ * Records the token usage Gemini reports with each response (retries included, as they're billed too).
+ */
+const trackUsage = (capability: AiCapability, model: string, response: GenerateContentResponse, signal?: AbortSignal) => {
+  const usage = response.usageMetadata;
+  if (!usage) return;
+  const audioTokens = usage.promptTokensDetails?.find(d => d.modality === MediaModality.AUDIO)?.tokenCount || 0;
+  recordUsage({
+    capability,
+    provider: 'Google Gemini',
+    model,
+    inputTokens: usage.promptTokenCount,
+    outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+    audioSeconds: audioTokens / AUDIO_TOKENS_PER_SECOND,
+    signal,
+  });
+};
+
+const responseText = (response: GenerateContentResponse): string => {
+  assertNotBlocked(response);
+  if (!response.text) throw new InvalidResponseError("Empty response from Gemini", { provider: 'Google Gemini' });
+  return response.text;
+};
+
+/**
+ * Transcribes a single clip in one request. Timestamps are relative to the clip.
+ * Text and timing only: translation and rewrite come from the separate enrichment pass.
+ */
+const transcribe = async (audio: Blob, mimeType: string, languages: LanguageSettings, signal?: AbortSignal): Promise<TranscriptionResponse> => {
+  const base64Audio = await fileToBase64(audio);
+  const source = describeSourceLanguage(languages.sourceLanguage);
+
+  const systemPrompt = `
+    Role: ${source.coach}.
+    Task: Transcribe audio in ${source.spokenLanguage} and merge fillers.
+    IMPORTANT: Return strict JSON only. Escape all double quotes inside strings.
+    Timestamps are in seconds from the beginning of this audio clip.
+    Output JSON ONLY:
+    {
+      "language": "${source.languageField}",
+      "meta": { "wordCount": number, "estimatedLevel": "string", "speed": "string" },
+      "segments": [
+        {
+          "start": number, "end": number,
+          "speaker": "S1, S2, ... (one label per distinct voice, consistent throughout; start a new segment when the speaker changes)",
+          "text": "Original text (combine short phrases)",
+          "words": [ { "text": "each word of text, in order (for Japanese/Chinese: each word or character group)", "start": number, "end": number } ]
+        }
+      ]
+    }
+  `;
+
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+      language: { type: Type.STRING },
+      meta: {
+        type: Type.OBJECT,
+        properties: {
+            wordCount: { type: Type.NUMBER },
+            estimatedLevel: { type: Type.STRING },
+            speed: { type: Type.STRING }
+        }
+      },
+      segments: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            start: { type: Type.NUMBER },
+            end: { type: Type.NUMBER },
+            speaker: { type: Type.STRING },
+            text: { type: Type.STRING },
+            words: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  text: { type: Type.STRING },
+                  start: { type: Type.NUMBER },
+                  end: { type: Type.NUMBER },
+                },
+                required: ["text", "start", "end"],
+              },
+            },
+          },
+          required: ["start", "end", "text"],
+        },
+      },
+    },
+    required: ["language", "segments", "meta"],
+  };
+
+  const model = getModels().transcriptionModel;
+  return withRetry(async () => {
+    const response = await generate('transcription', {
+      model,
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              mimeType: mimeType, // Use the corrected MIME type
+              data: base64Audio
+            }
+          },
+          { text: "Generate JSON." }
+        ]
+      },
+      config: {
+        systemInstruction: systemPrompt,
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        maxOutputTokens: 8192, // Increase limit to prevent truncated JSON
+        abortSignal: signal,
+      }
+    });
+    trackUsage('transcription', model, response, signal);
+
+    // Lenient parse: a truncated response still yields its complete segments
+    const { value, repaired } = parseJsonLenient<TranscriptionResponse>(responseText(response));
+    if (repaired) {
+      value.warnings = [...(value.warnings || []), "The AI response was cut off or malformed; incomplete segments were dropped."];
+    }
+    return value;
+  }, { signal });
+};
+
+/**
+ * Translation + native rewrite for already-transcribed text.
+ */
+const enrich = async (items: EnrichmentInput[], languages: LanguageSettings, signal?: AbortSignal): Promise<SegmentEnrichment[]> => {
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+      items: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            index: { type: Type.NUMBER },
+            translation: { type: Type.STRING },
+            idiomatic: { type: Type.STRING },
+            idiomExplanation: { type: Type.STRING },
+          },
+          required: ["index", "translation", "idiomatic", "idiomExplanation"],
+        },
+      },
+    },
+    required: ["items"],
+  };
+
+  const model = getModels().textModel;
+  return withRetry(async () => {
+    const response = await generate('enrichment', {
+      model,
+      contents: buildEnrichmentPrompt(items),
+      config: {
+        systemInstruction: buildEnrichmentSystemPrompt(languages),
+        responseMimeType: "application/json",
+        responseSchema,
+        maxOutputTokens: 8192,
+        abortSignal: signal,
+      }
+    });
+    trackUsage('enrichment', model, response, signal);
+
+    return readEnrichmentItems(items, cleanAndParseJson(responseText(response)));
+  }, { signal });
+};
+
+/**
+ * Alternative rewrites of one segment, from its text and neighbours only.
+ */
+const suggestRewrites = async (request: RewriteRequest, languages: LanguageSettings, signal?: AbortSignal): Promise<RewriteAlternative[]> => {
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+      alternatives: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            register: { type: Type.STRING, enum: request.registers },
+            idiomatic: { type: Type.STRING },
+            idiomExplanation: { type: Type.STRING },
+            translation: { type: Type.STRING },
+          },
+          required: ["register", "idiomatic", "idiomExplanation", "translation"],
+        },
+      },
+    },
+    required: ["alternatives"],
+  };
+
+  const model = getModels().textModel;
+  return withRetry(async () => {
+    const response = await generate('rewrite', {
+      model,
+      contents: buildRewritePrompt(request),
+      config: { systemInstruction: buildRewriteSystemPrompt(languages), responseMimeType: "application/json", responseSchema, abortSignal: signal }
+    });
+    trackUsage('rewrite', model, response, signal);
+
+    return readRewriteAlternatives(request.registers, cleanAndParseJson(responseText(response)));
+  }, { signal });
+};
+
+/**
+ * Text-to-Speech.
+ */
+const synthesizeSpeech = async (text: string, signal?: AbortSignal): Promise<string> => {
+  const model = getModels().ttsModel;
+  return withRetry(async () => {
+    const response = await generate('tts', {
+      model,
+      contents: { parts: [{ text }] },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: 'Kore' },
+          },
+        },
+        abortSignal: signal,
+      },
+    });
+    trackUsage('tts', model, response, signal);
+
+    assertNotBlocked(response);
+    const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (audioData) return audioData;
+    throw new InvalidResponseError("Empty response from Gemini: no audio data returned", { provider: 'Google Gemini' });
+  }, { signal });
+};
+
+/**
+ * Scores user pronunciation by listening to the recording.
+ */
+const scorePronunciation = async (audio: Blob, mimeType: string, referenceText: string, signal?: AbortSignal): Promise<PronunciationScore> => {
+  const base64Audio = await fileToBase64(audio);
+
+  const prompt = `
+    Listen to this user recording and compare it to the text: "${referenceText}".
+    Grade the pronunciation accuracy from 0 to 100.
+    Provide brief feedback.
+    Return JSON: { score: number, feedback: string, accuracy: 'good'|'average'|'poor' }
+  `;
+
+  const responseSchema = {
+    type: Type.OBJECT,
+    properties: {
+      score: { type: Type.NUMBER },
+      feedback: { type: Type.STRING },
+      accuracy: { type: Type.STRING, enum: ['good', 'average', 'poor'] }
+    },
+    required: ["score", "feedback", "accuracy"]
+  };
+
+  const model = getModels().transcriptionModel;
+  return withRetry(async () => {
+    const response = await generate('scoring', {
+      model,
+      contents: {
+        parts: [
+          { inlineData: { mimeType: mimeType, data: base64Audio } },
+          { text: prompt }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: responseSchema,
+        abortSignal: signal,
+      }
+    });
+    trackUsage('scoring', model, response, signal);
+
+    // Use cleanAndParseJson for consistency
+    return cleanAndParseJson<PronunciationScore>(responseText(response));
+  }, { signal });
+};
+
+/**
+ * Word definition in context.
+ */
+const defineWord = async (word: string, contextSentence: string, languages: LanguageSettings, signal?: AbortSignal): Promise<WordDefinition> => {
+  const responseSchema = {
+      type: Type.OBJECT,
+      properties: {
+      word: { type: Type.STRING },
+      definition: { type: Type.STRING },
+      example: { type: Type.STRING },
+      phonetic: { type: Type.STRING },
+      translation: { type: Type.STRING },
+      },
+      required: ["word", "definition", "example"],
+  };
+
+  const model = getModels().textModel;
+  return withRetry(async () => {
+      const response = await generate('definition', {
+          model,
+          contents: buildDefinitionPrompt(word, contextSentence, languages),
+          config: { systemInstruction: buildDefinitionSystemPrompt(languages), responseMimeType: "application/json", responseSchema, abortSignal: signal }
+      });
+      trackUsage('definition', model, response, signal);
+      // Use cleanAndParseJson for consistency
+      return cleanAndParseJson<WordDefinition>(responseText(response));
+  }, { signal });
+};
+
+/**
+ * Looks up the configured models, which checks the key and catches typos in model names.
+ */
+const testConnection = async (signal?: AbortSignal): Promise<string> => {
+  if (isProxyMode()) {
+    const health = await getProxyHealth(signal);
+    if (!health.gemini) throw new ApiKeyError("The proxy has no Gemini API key configured.", { provider: PROXY_PROVIDER_NAME });
+    return "Connected to the proxy; it has a Gemini API key.";
+  }
+  const ai = getAi();
+  const models = [...new Set(Object.values(getModels()))];
+  for (const model of models) {
+    try {
+      await ai.models.get({ model, config: { abortSignal: signal } });
+    } catch (e) {
+      const error = toAiError(e, { provider: 'Google Gemini' });
+      error.message = `${model}: ${error.message}`;
+      throw error;
+    }
+  }
+  return `Connected. Models available: ${models.join(', ')}.`;
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  name: 'Google Gemini',
+  isConfigured: () => isProxyMode() || !!loadCredentials().geminiApiKey.trim(),
+  testConnection,
+  transcribe,
+  enrich,
+  suggestRewrites,
+  synthesizeSpeech,
+  scorePronunciation,
+  defineWord,
+};
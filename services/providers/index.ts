@@ -0,0 +1,118 @@
+import { env } from "../env";
+import { loadSettings } from "../settings";
+import { ApiKeyError, toAiError, isCancelled } from "../errors";
+import { AiCapability, AiProvider, ProviderConfig, ProviderId } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { deepSeekProvider } from "./deepSeekProvider";
+import { whisperProvider } from "./whisperProvider";
+import { mockProvider } from "./mockProvider";
+
+export type { AiCapability, AiProvider, ProviderConfig, ProviderId, SegmentEnrichment, EnrichmentInput, RewriteRequest } from "./types";
+export { callDeepSeek } from "./deepSeekProvider";
+export { withRetry, cleanAndParseJson } from "./shared";
+
+const PROVIDERS: Record<ProviderId, AiProvider> = {
+  gemini: geminiProvider,
+  deepseek: deepSeekProvider,
+  whisper: whisperProvider,
+  mock: mockProvider,
+};
+
+const DEFAULT_CONFIG: ProviderConfig = {
+  transcription: ['gemini'],
+  enrichment: ['gemini', 'deepseek'],
+  rewrite: ['gemini', 'deepseek'],
+  tts: ['gemini'],
+  scoring: ['gemini'],
+  definition: ['gemini', 'deepseek'],
+};
+
+// Which provider method implements each capability
+const CAPABILITY_METHOD: Record<AiCapability, keyof AiProvider> = {
+  transcription: 'transcribe',
+  enrichment: 'enrich',
+  rewrite: 'suggestRewrites',
+  tts: 'synthesizeSpeech',
+  scoring: 'scorePronunciation',
+  definition: 'defineWord',
+};
+
+/**
+ * Parses "capability=id,id;capability=id" overrides on top of the defaults.
+ */
+const parseConfig = (raw: string | undefined): ProviderConfig => {
+  const config: ProviderConfig = { ...DEFAULT_CONFIG };
+  if (!raw) return config;
+
+  for (const entry of raw.split(';')) {
+    const [capability, ids] = entry.split('=').map(part => part?.trim());
+    if (!capability || !ids || !(capability in config)) {
+      console.warn(`Ignoring invalid AI_PROVIDERS entry: "${entry}"`);
+      continue;
+    }
+    const providerIds = ids.split(',').map(id => id.trim()).filter((id): id is ProviderId => id in PROVIDERS);
+    if (providerIds.length > 0) config[capability as AiCapability] = providerIds;
+  }
+  return config;
+};
+
+let providerConfig = parseConfig(env.AI_PROVIDERS);
+
+export const getProviderConfig = (): ProviderConfig => providerConfig;
+
+export const setProviderConfig = (config: Partial<ProviderConfig>) => {
+  providerConfig = { ...providerConfig, ...config };
+};
+
+/**
+ * Offline demo mode (Settings > Connection, or API_MODE=mock) answers everything locally.
+ */
+export const isMockMode = () => loadSettings().apiMode === 'mock';
+
+/**
+ * Providers to try for a capability, in order. Fallbacks without credentials are skipped,
+ * but the primary is always kept so a missing key surfaces as an error.
+ */
+export const getProvidersFor = (capability: AiCapability): AiProvider[] => {
+  if (isMockMode()) return [mockProvider];
+  const method = CAPABILITY_METHOD[capability];
+  return providerConfig[capability]
+    .map(id => PROVIDERS[id])
+    .filter((provider, i) => provider[method] && (i === 0 || provider.isConfigured()));
+};
+
+/**
+ * Checks one provider's credentials, whether or not it's used for any capability.
+ */
+export const testProviderConnection = (id: ProviderId, signal?: AbortSignal): Promise<string> =>
+  PROVIDERS[id].testConnection(signal).catch(e => { throw toAiError(e, { provider: PROVIDERS[id].name }); });
+
+/**
+ * Runs `call` against the configured providers for a capability, falling back on failure.
+ * A cancelled call is rethrown straight away instead of falling back.
+ */
+export const runWithProviders = async <T>(
+  capability: AiCapability,
+  call: (provider: AiProvider) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  const providers = getProvidersFor(capability);
+  if (providers.length === 0) {
+    throw new ApiKeyError(`No configured AI provider supports ${capability}.`);
+  }
+
+  let lastError: unknown;
+  for (let i = 0; i < providers.length; i++) {
+    try {
+      return await call(providers[i]);
+    } catch (raw) {
+      const error = toAiError(raw, { provider: providers[i].name });
+      if (isCancelled(error) || signal?.aborted) throw error;
+      lastError = error;
+      if (i < providers.length - 1) {
+        console.warn(`[Fallback] ${providers[i].name} ${capability} failed, switching to ${providers[i + 1].name}...`, error);
+      }
+    }
+  }
+  throw lastError;
+};
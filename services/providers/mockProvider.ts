@@ -0,0 +1,181 @@
+import { TranscriptionResponse, TranscriptionSegment, WordDefinition, PronunciationScore, LanguageSettings, RewriteAlternative } from "../../types";
+import { throwIfCancelled } from "../errors";
+import { decodeAudioFile } from "../audioUtils";
+import { getLanguageName, AUTO_DETECT } from "../languages";
+import { AiProvider, SegmentEnrichment, EnrichmentInput, RewriteRequest } from "./types";
+
+/**
+ * Offline demo backend: deterministic answers without any network request, so the whole
+ * flow can be shown and tested without keys. Same input, same output.
+ */
+
+const SENTENCES = [
+  "Welcome to the offline demo of LinguaSync.",
+  "Every sentence here is generated on your device.",
+  "Tap a word to see how definitions look.",
+  "Try shadowing this line after the speaker.",
+  "Recording yourself gives you a practice score.",
+  "Nothing you do in demo mode costs any money.",
+  "Add an API key in Settings to analyze real speech.",
+  "The timing of these lines follows your audio.",
+];
+
+// One demo sentence per this many seconds of audio
+const SEGMENT_SECONDS = 4;
+const TTS_SAMPLE_RATE = 24000;
+// Bitrate guess for audio the browser can't decode (128 kbps)
+const FALLBACK_BYTES_PER_SECOND = 16000;
+
+// FNV-1a, so answers depend only on their input
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Clip length in seconds: from the WAV header for our own chunks, otherwise by decoding.
+ */
+const clipDuration = async (audio: Blob, mimeType: string): Promise<number> => {
+  if (mimeType === 'audio/wav' && audio.size > 44) {
+    const header = new DataView(await audio.slice(0, 44).arrayBuffer());
+    const byteRate = header.getUint32(28, true);
+    if (byteRate > 0) return (audio.size - 44) / byteRate;
+  }
+  try {
+    return (await decodeAudioFile(audio)).duration;
+  } catch {
+    return audio.size / FALLBACK_BYTES_PER_SECOND;
+  }
+};
+
+const evenWordTimings = (text: string, start: number, end: number) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const step = (end - start) / words.length;
+  return words.map((word, i) => ({ text: word, start: start + i * step, end: start + (i + 1) * step }));
+};
+
+const transcribe = async (audio: Blob, mimeType: string, languages: LanguageSettings, signal?: AbortSignal): Promise<TranscriptionResponse> => {
+  throwIfCancelled(signal);
+  const duration = await clipDuration(audio, mimeType);
+  throwIfCancelled(signal);
+
+  const count = Math.max(1, Math.round(duration / SEGMENT_SECONDS));
+  const length = duration > 0 ? duration / count : SEGMENT_SECONDS;
+  const segments: TranscriptionSegment[] = Array.from({ length: count }, (_, i) => {
+    const start = i * length;
+    const end = start + length * 0.9; // Leave a short pause between lines
+    const text = SENTENCES[i % SENTENCES.length];
+    return {
+      start,
+      end,
+      text,
+      words: evenWordTimings(text, start, end),
+      speaker: Math.floor(i / 2) % 2 === 0 ? 'S1' : 'S2',
+      translation: '',
+      idiomatic: '',
+    };
+  });
+
+  const wordCount = segments.reduce((sum, s) => sum + (s.words?.length || 0), 0);
+  return {
+    language: languages.sourceLanguage === AUTO_DETECT ? 'en-US' : languages.sourceLanguage,
+    segments,
+    meta: {
+      wordCount,
+      estimatedLevel: 'B1',
+      speed: duration > 0 ? `${Math.round(wordCount / (duration / 60))} wpm` : 'N/A',
+    },
+  };
+};
+
+const enrich = async (items: EnrichmentInput[], languages: LanguageSettings, signal?: AbortSignal): Promise<SegmentEnrichment[]> => {
+  throwIfCancelled(signal);
+  const language = getLanguageName(languages.nativeLanguage);
+  return items.map(item => ({
+    translation: `[${language}] ${item.text}`,
+    idiomatic: item.idiomatic || item.text.replace(/\.$/, '') + ', you know?',
+    idiomExplanation: 'Demo rewrite: a casual tag question softens the statement.',
+  }));
+};
+
+const suggestRewrites = async (request: RewriteRequest, languages: LanguageSettings, signal?: AbortSignal): Promise<RewriteAlternative[]> => {
+  throwIfCancelled(signal);
+  const language = getLanguageName(languages.nativeLanguage);
+  const base = request.text.replace(/[.!?]$/, '');
+  const variants: Record<string, string> = {
+    casual: `So, ${base.charAt(0).toLowerCase()}${base.slice(1)}!`,
+    professional: `I would like to point out that ${base.charAt(0).toLowerCase()}${base.slice(1)}.`,
+    concise: base.split(/\s+/).slice(0, 5).join(' ') + '.',
+  };
+  return request.registers.map(register => ({
+    register,
+    idiomatic: variants[register] || request.text,
+    idiomExplanation: `Demo ${register} rewrite.`,
+    translation: `[${language}] ${variants[register] || request.text}`,
+  }));
+};
+
+/**
+ * A sine tone as base64 24kHz 16-bit mono PCM, like Gemini TTS returns. Longer text gives a
+ * longer tone, and each text gets its own pitch.
+ */
+const synthesizeSpeech = async (text: string, signal?: AbortSignal): Promise<string> => {
+  throwIfCancelled(signal);
+  const seconds = Math.min(6, Math.max(0.5, text.length * 0.06));
+  const frequency = 220 + (hashString(text) % 220);
+  const samples = Math.round(seconds * TTS_SAMPLE_RATE);
+  const fade = Math.round(0.02 * TTS_SAMPLE_RATE); // Avoids clicks at both ends
+
+  const pcm = new Int16Array(samples);
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / fade, (samples - i) / fade);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / TTS_SAMPLE_RATE) * envelope * 0.3 * 32767);
+  }
+
+  const bytes = new Uint8Array(pcm.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const scorePronunciation = async (audio: Blob, _mimeType: string, referenceText: string, signal?: AbortSignal): Promise<PronunciationScore> => {
+  throwIfCancelled(signal);
+  const score = 55 + (hashString(`${referenceText}:${audio.size}`) % 41);
+  const accuracy = score >= 80 ? 'good' : score >= 65 ? 'average' : 'poor';
+  const feedback = accuracy === 'good'
+    ? "Demo score: clear and well paced."
+    : accuracy === 'average'
+      ? "Demo score: mostly clear, watch the stressed syllables."
+      : "Demo score: try slowing down and following the rhythm.";
+  return { score, feedback, accuracy };
+};
+
+const defineWord = async (word: string, contextSentence: string, languages: LanguageSettings, signal?: AbortSignal): Promise<WordDefinition> => {
+  throwIfCancelled(signal);
+  return {
+    word,
+    definition: `Demo definition of "${word}". Connect a provider in Settings for real definitions.`,
+    example: contextSentence || `Here is "${word}" in a sentence.`,
+    phonetic: `/${word.toLowerCase()}/`,
+    translation: `[${getLanguageName(languages.nativeLanguage)}] ${word}`,
+  };
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  name: 'Offline demo',
+  isConfigured: () => true,
+  testConnection: async () => "Offline demo mode: no requests leave this browser.",
+  transcribe,
+  enrich,
+  suggestRewrites,
+  synthesizeSpeech,
+  scorePronunciation,
+  defineWord,
+};
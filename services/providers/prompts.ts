@@ -0,0 +1,148 @@
+import { LanguageSettings, RewriteAlternative, RewriteRegister } from '../../types';
+import { getLanguageName, getSourceLanguage, AUTO_DETECT } from '../languages';
+import { EnrichmentInput, SegmentEnrichment, RewriteRequest } from './types';
+
+/**
+ * Prompts shared by every text-capable provider, so switching backends
+ * doesn't change what the learner sees.
+ */
+
+// Bump when transcription/enrichment prompts change, so cached transcriptions are redone
+export const PROMPT_VERSION = 2;
+
+export interface SourcePromptParts {
+  coach: string;        // Role line
+  spokenLanguage: string;
+  languageField: string; // What to put in the "language" field
+  rewriteStyle: string;
+}
+
+/**
+ * Language-specific wording for the source language, or detection instructions for 'auto'.
+ */
+export const describeSourceLanguage = (sourceLanguage: string): SourcePromptParts => {
+  if (!sourceLanguage || sourceLanguage === AUTO_DETECT) {
+    return {
+      coach: 'Language Coach',
+      spokenLanguage: 'the spoken language (detect it)',
+      languageField: 'BCP-47 code of the detected language, e.g. en-US, fr-FR, ja-JP',
+      rewriteStyle: 'a native speaker of that language, in its most natural standard variety',
+    };
+  }
+  const source = getSourceLanguage(sourceLanguage);
+  return {
+    coach: `${source.name} Coach`,
+    spokenLanguage: `${source.name} (${source.code})`,
+    languageField: source.code,
+    rewriteStyle: source.rewriteStyle,
+  };
+};
+
+export const buildEnrichmentSystemPrompt = ({ nativeLanguage, sourceLanguage }: LanguageSettings): string => {
+  const language = getLanguageName(nativeLanguage);
+  const source = describeSourceLanguage(sourceLanguage);
+  return `
+    Role: ${source.coach}.
+    Task: For each numbered ${source.spokenLanguage} sentence, translate it and improve the user's phrasing.
+    If a sentence comes with "Keep rewrite:", return that rewrite unchanged as "idiomatic" and only explain it.
+    IMPORTANT: Return strict JSON only. Escape all double quotes inside strings.
+    Output JSON ONLY:
+    {
+      "items": [
+        {
+          "index": number,
+          "translation": "${language} translation",
+          "idiomatic": "Rewrite the original text (in the same language) to sound like ${source.rewriteStyle}.",
+          "idiomExplanation": "Brief ${language} explanation of the improvement (e.g. better word choice)."
+        }
+      ]
+    }
+  `;
+};
+
+export const buildEnrichmentPrompt = (items: EnrichmentInput[]): string =>
+  items
+    .map((item, i) => `${i}. ${item.text}${item.idiomatic ? `\n   Keep rewrite: ${item.idiomatic}` : ''}`)
+    .join('\n');
+
+/**
+ * Maps the model's `items` back onto the input order. Missing items become empty enrichments.
+ */
+export const readEnrichmentItems = (
+  inputs: EnrichmentInput[],
+  parsed: { items?: (SegmentEnrichment & { index: number })[] }
+): SegmentEnrichment[] => {
+  const byIndex = new Map((parsed.items || []).map(item => [item.index, item]));
+  return inputs.map((input, i) => {
+    const item = byIndex.get(i);
+    return {
+      translation: item?.translation || '',
+      // A rewrite we asked to keep wins over whatever the model returned
+      idiomatic: input.idiomatic || item?.idiomatic || '',
+      idiomExplanation: item?.idiomExplanation,
+    };
+  });
+};
+
+const REGISTER_DESCRIPTIONS: Record<RewriteRegister, string> = {
+  casual: 'relaxed, everyday speech between friends',
+  professional: 'polished and polite, suitable for work or formal situations',
+  concise: 'as short as possible while keeping the meaning',
+};
+
+export const buildRewriteSystemPrompt = ({ nativeLanguage, sourceLanguage }: LanguageSettings): string => {
+  const language = getLanguageName(nativeLanguage);
+  const source = describeSourceLanguage(sourceLanguage);
+  return `
+    Role: ${source.coach}.
+    Task: Rewrite ONE ${source.spokenLanguage} sentence in each requested register so it sounds like ${source.rewriteStyle}.
+    The surrounding sentences are context only; do not rewrite them.
+    IMPORTANT: Return strict JSON only. Escape all double quotes inside strings.
+    Output JSON ONLY:
+    {
+      "alternatives": [
+        {
+          "register": "one of the requested registers",
+          "idiomatic": "The rewrite, in the same language as the sentence",
+          "idiomExplanation": "Brief ${language} explanation of why this phrasing fits the register",
+          "translation": "${language} translation of the rewrite"
+        }
+      ]
+    }
+  `;
+};
+
+export const buildRewritePrompt = ({ text, previous, next, registers }: RewriteRequest): string =>
+  [
+    previous ? `Previous sentence: ${previous}` : '',
+    `Sentence to rewrite: ${text}`,
+    next ? `Next sentence: ${next}` : '',
+    `Registers: ${registers.map(r => `${r} (${REGISTER_DESCRIPTIONS[r]})`).join('; ')}`,
+  ].filter(Boolean).join('\n');
+
+/**
+ * Keeps one usable alternative per requested register, in the requested order.
+ */
+export const readRewriteAlternatives = (
+  registers: RewriteRegister[],
+  parsed: { alternatives?: Partial<RewriteAlternative>[] }
+): RewriteAlternative[] => {
+  const alternatives = parsed.alternatives || [];
+  return registers
+    .map(register => alternatives.find(a => a.register === register && a.idiomatic?.trim()))
+    .filter((a): a is Partial<RewriteAlternative> & { register: RewriteRegister } => !!a)
+    .map(a => ({
+      register: a.register,
+      idiomatic: a.idiomatic!.trim(),
+      idiomExplanation: a.idiomExplanation || '',
+      translation: a.translation || '',
+    }));
+};
+
+export const buildDefinitionPrompt = (word: string, contextSentence: string, { nativeLanguage, sourceLanguage }: LanguageSettings): string => {
+  const source = getSourceLanguage(sourceLanguage === AUTO_DETECT ? '' : sourceLanguage);
+  return `Define the ${source.name} word "${word}" in context: "${contextSentence}". Return JSON with: word (dictionary form), definition (simple ${source.name}), translation (the word's meaning here, in ${getLanguageName(nativeLanguage)}), example (in ${source.name}), phonetic (IPA, or reading such as kana/pinyin).`;
+};
+
+export const buildDefinitionSystemPrompt = ({ sourceLanguage }: LanguageSettings): string =>
+  `You are a ${getSourceLanguage(sourceLanguage === AUTO_DETECT ? '' : sourceLanguage).name} dictionary API. Output purely JSON.`;
@@ -0,0 +1,72 @@
+import { GenerateContentParameters, GenerateContentResponse, Part } from "@google/genai";
+import { loadSettings } from "../settings";
+import { loadCredentials } from "../credentials";
+import { errorFromResponse } from "../errors";
+import { AiCapability } from "./types";
+
+export const PROXY_PROVIDER_NAME = 'LinguaSync proxy';
+
+/**
+ * Proxy routes (functions/api) by capability. Text capabilities share one route.
+ */
+const PROXY_ROUTES: Record<AiCapability, string> = {
+  transcription: 'transcribe',
+  scoring: 'score',
+  tts: 'tts',
+  definition: 'define',
+  enrichment: 'enrich',
+  rewrite: 'enrich',
+};
+
+/**
+ * In proxy mode, requests go through our own backend, which holds the API keys.
+ */
+export const isProxyMode = () => loadSettings().apiMode === 'proxy';
+
+const proxyBaseUrl = () => (loadSettings().proxyUrl.trim() || '/api').replace(/\/+$/, '');
+
+const proxyHeaders = (): Record<string, string> => {
+  const token = loadCredentials().proxyAccessToken.trim();
+  return token ? { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` } : { 'Content-Type': 'application/json' };
+};
+
+const proxyFetch = async <T>(path: string, init: RequestInit): Promise<T> => {
+  const response = await fetch(`${proxyBaseUrl()}/${path}`, { ...init, headers: proxyHeaders() });
+  if (!response.ok) throw await errorFromResponse(response, PROXY_PROVIDER_NAME);
+  return response.json();
+};
+
+export const postToProxy = <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  proxyFetch<T>(path, { method: 'POST', body: JSON.stringify(body), signal });
+
+/**
+ * Which providers the proxy has keys for.
+ */
+export const getProxyHealth = (signal?: AbortSignal): Promise<{ gemini: boolean; deepseek: boolean }> =>
+  proxyFetch<{ gemini: boolean; deepseek: boolean }>('health', { method: 'GET', signal });
+
+const toParts = (content: string | Part | Part[] | { parts?: Part[] }): Part[] => {
+  if (typeof content === 'string') return [{ text: content }];
+  if (Array.isArray(content)) return content;
+  if ('parts' in content && content.parts) return content.parts;
+  return [content as Part];
+};
+
+/**
+ * Converts SDK parameters to the REST GenerateContentRequest the proxy forwards.
+ * Covers the subset of options our Gemini calls use.
+ */
+const toRestRequest = ({ contents, config = {} }: GenerateContentParameters) => {
+  const { systemInstruction, responseMimeType, responseSchema, maxOutputTokens, responseModalities, speechConfig } = config;
+  return {
+    contents: [{ role: 'user', parts: toParts(contents as string | Part | { parts?: Part[] }) }],
+    systemInstruction: typeof systemInstruction === 'string' ? { parts: [{ text: systemInstruction }] } : systemInstruction,
+    generationConfig: { responseMimeType, responseSchema, maxOutputTokens, responseModalities, speechConfig },
+  };
+};
+
+/**
+ * Gemini generateContent through the proxy. Returns the raw REST response JSON.
+ */
+export const generateViaProxy = (capability: AiCapability, params: GenerateContentParameters) =>
+  postToProxy<Partial<GenerateContentResponse>>(PROXY_ROUTES[capability], { model: params.model, request: toRestRequest(params) }, params.config?.abortSignal);
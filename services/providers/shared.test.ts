@@ -0,0 +1,48 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseJsonLenient, repairJson } from './shared';
+import { InvalidResponseError } from '../errors';
+
+describe('repairJson', () => {
+  it('leaves valid JSON alone', () => {
+    const text = '{"segments":[{"text":"Hi","start":0}]}';
+    expect(repairJson(text)).toBe(text);
+  });
+
+  it('escapes stray quotes and raw newlines inside strings', () => {
+    const repaired = repairJson('{"text":"She said "hello" twice\nand left","n":1}');
+    expect(JSON.parse(repaired)).toEqual({ text: 'She said "hello" twice\nand left', n: 1 });
+  });
+
+  it('drops trailing commas', () => {
+    expect(JSON.parse(repairJson('{"a":[1,2,],}'))).toEqual({ a: [1, 2] });
+  });
+
+  it('ignores text around the root value', () => {
+    expect(JSON.parse(repairJson('Here you go: {"a":1} Hope that helps!'))).toEqual({ a: 1 });
+  });
+
+  it('keeps the complete items of truncated output', () => {
+    const repaired = repairJson('{"segments":[{"text":"One","start":0},{"text":"Two","start":1},{"text":"Thr');
+    expect(JSON.parse(repaired)).toEqual({ segments: [{ text: 'One', start: 0 }, { text: 'Two', start: 1 }] });
+  });
+});
+
+describe('parseJsonLenient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('parses valid JSON inside a Markdown code block', () => {
+    expect(parseJsonLenient('```json\n{"a":1}\n```')).toEqual({ value: { a: 1 }, repaired: false });
+  });
+
+  it('reports when the JSON had to be repaired', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseJsonLenient('{"items":[1,2,3')).toEqual({ value: { items: [1, 2] }, repaired: true });
+  });
+
+  it('throws InvalidResponseError for text without JSON', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(() => parseJsonLenient('Sorry, I cannot help with that.')).toThrow(InvalidResponseError);
+  });
+});
@@ -0,0 +1,161 @@
+import { toAiError, InvalidResponseError, CancelledError, throwIfCancelled } from "../errors";
+
+// Longer server-requested waits are reported to the user instead of silently waited out
+const MAX_RETRY_WAIT_MS = 60_000;
+
+interface RetryOptions {
+  retries?: number;
+  delayMs?: number;
+  signal?: AbortSignal; // Stops retrying (and waiting) once aborted
+}
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError('The request was cancelled.'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Helper to retry async functions (e.g., API calls).
+ * Errors are classified into typed AiServiceErrors; only retryable ones (rate limits,
+ * 5xx, network, malformed output) are retried, honouring any Retry-After the server sent.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, { retries = 3, delayMs = 1000, signal }: RetryOptions = {}): Promise<T> => {
+  let lastError: unknown;
+  for (let i = 0; i < retries; i++) {
+    try {
+      throwIfCancelled(signal);
+      return await fn();
+    } catch (raw) {
+      const error = toAiError(raw);
+      lastError = error;
+      const waitMs = Math.max(delayMs, error.retryAfterMs || 0);
+
+      if (error.retryable && i < retries - 1 && waitMs <= MAX_RETRY_WAIT_MS) {
+        console.warn(`API call failed with ${error.name} (attempt ${i + 1}/${retries}). Retrying in ${waitMs}ms...`, error);
+        await sleep(waitMs, signal);
+        delayMs *= 2; // Exponential backoff
+        continue;
+      }
+      throw error;
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Best-effort repair of model JSON: escapes stray quotes and raw newlines inside strings,
+ * drops trailing commas, and closes truncated output after the last complete value
+ * (so a cut-off array keeps its complete items).
+ */
+export const repairJson = (text: string): string => {
+  const start = text.search(/[{[]/);
+  if (start === -1) return text;
+
+  let out = '';
+  const stack: string[] = []; // expected closers
+  let inString = false;
+  let escaped = false;
+  // Last point where everything before it is complete, and what was still open there
+  let safe = { length: 0, stack: [] as string[] };
+
+  const nextSignificant = (from: number) => {
+    for (let j = from; j < text.length; j++) {
+      if (!/\s/.test(text[j])) return text[j];
+    }
+    return '';
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) { out += ch; escaped = false; continue; }
+      if (ch === '\\') { out += ch; escaped = true; continue; }
+      if (ch === '\n') { out += '\\n'; continue; }
+      if (ch === '"') {
+        // A real closing quote is followed by structure; anything else is an unescaped quote
+        const next = nextSignificant(i + 1);
+        if (next === '' || ',:}]'.includes(next)) {
+          inString = false;
+          out += ch;
+        } else {
+          out += '\\"';
+        }
+        continue;
+      }
+      out += ch;
+      continue;
+    }
+
+    if (ch === '"') { inString = true; out += ch; continue; }
+    if (ch === '{' || ch === '[') { stack.push(ch === '{' ? '}' : ']'); out += ch; continue; }
+    if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, ''); // trailing comma
+      stack.pop();
+      out += ch;
+      safe = { length: out.length, stack: [...stack] };
+      if (stack.length === 0) break; // ignore anything after the root value
+      continue;
+    }
+    if (ch === ',') {
+      safe = { length: out.length, stack: [...stack] };
+    }
+    out += ch;
+  }
+
+  if (!inString && stack.length === 0) return out;
+
+  // Truncated: roll back to the last complete value and close what was open there
+  const head = out.slice(0, safe.length).replace(/,\s*$/, '');
+  return head + [...safe.stack].reverse().join('');
+};
+
+/**
+ * Parses model JSON, repairing it when strict parsing fails.
+ * `repaired` tells callers that content may have been dropped.
+ */
+export const parseJsonLenient = <T>(text: string): { value: T; repaired: boolean } => {
+  // Remove ```json and ``` wrap if present
+  const cleanText = text.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+  try {
+    return { value: JSON.parse(cleanText) as T, repaired: false };
+  } catch {
+    try {
+      const value = JSON.parse(repairJson(cleanText)) as T;
+      console.warn("Repaired malformed AI response JSON");
+      return { value, repaired: true };
+    } catch (e) {
+      console.error("JSON Parse Error on text:", text);
+      throw new InvalidResponseError("Failed to parse AI response. Ensure content is valid JSON.");
+    }
+  }
+};
+
+/**
+ * Helper to parse JSON that might be wrapped in Markdown code blocks (or slightly malformed)
+ */
+export const cleanAndParseJson = <T>(text: string): T => parseJsonLenient<T>(text).value;
+
+/**
+ * Converts a File/Blob to Base64 string (without Data URI prefix).
+ */
+export const fileToBase64 = async (file: File | Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const result = reader.result as string;
+      const base64 = result.split(',')[1] || result;
+      resolve(base64);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+};
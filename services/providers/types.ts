@@ -0,0 +1,63 @@
+import { TranscriptionResponse, WordDefinition, PronunciationScore, LanguageSettings, RewriteAlternative, RewriteRegister } from '../../types';
+
+export type AiCapability = 'transcription' | 'enrichment' | 'rewrite' | 'tts' | 'scoring' | 'definition';
+
+export type ProviderId = 'gemini' | 'deepseek' | 'whisper' | 'mock';
+
+/**
+ * Ordered provider list per capability. The first entry is the primary,
+ * the rest are fallbacks tried in order when the previous one fails.
+ */
+export type ProviderConfig = Record<AiCapability, ProviderId[]>;
+
+/**
+ * The learner-facing fields generated from a segment's text.
+ */
+export interface SegmentEnrichment {
+  translation: string;
+  idiomatic: string;
+  idiomExplanation?: string;
+}
+
+/**
+ * A segment to enrich. With `idiomatic` set, the rewrite is kept and only explained.
+ */
+export interface EnrichmentInput {
+  text: string;
+  idiomatic?: string;
+}
+
+/**
+ * One segment to rewrite, with its neighbours as context. Never includes audio.
+ */
+export interface RewriteRequest {
+  text: string;
+  previous?: string;
+  next?: string;
+  registers: RewriteRegister[];
+}
+
+/**
+ * An AI backend. Methods are optional because not every backend can handle
+ * every capability (e.g. DeepSeek is text-only).
+ */
+export interface AiProvider {
+  id: ProviderId;
+  name: string;
+  isConfigured: () => boolean;
+  // Cheap request that checks the credentials (and models); resolves to a short status line
+  testConnection: (signal?: AbortSignal) => Promise<string>;
+
+  // Every method takes an optional AbortSignal last; aborting rejects with a CancelledError
+  // Timestamps are relative to the start of the given clip
+  // Segments may come back without translation/idiomatic; the enrichment pass fills them in
+  transcribe?: (audio: Blob, mimeType: string, languages: LanguageSettings, signal?: AbortSignal) => Promise<TranscriptionResponse>;
+  // Returns one entry per input, in the same order
+  enrich?: (items: EnrichmentInput[], languages: LanguageSettings, signal?: AbortSignal) => Promise<SegmentEnrichment[]>;
+  // One alternative per requested register
+  suggestRewrites?: (request: RewriteRequest, languages: LanguageSettings, signal?: AbortSignal) => Promise<RewriteAlternative[]>;
+  // Returns base64 24kHz mono PCM
+  synthesizeSpeech?: (text: string, signal?: AbortSignal) => Promise<string>;
+  scorePronunciation?: (audio: Blob, mimeType: string, referenceText: string, signal?: AbortSignal) => Promise<PronunciationScore>;
+  defineWord?: (word: string, contextSentence: string, languages: LanguageSettings, signal?: AbortSignal) => Promise<WordDefinition>;
+}
@@ -0,0 +1,129 @@
+import { TranscriptionResponse, TranscriptionSegment, WordTiming, LanguageSettings } from "../../types";
+import { env } from "../env";
+import { loadCredentials, getWhisperApiUrl } from "../credentials";
+import { ApiKeyError, errorFromResponse } from "../errors";
+import { AUTO_DETECT, getSourceLanguage } from "../languages";
+import { countWords } from "../tokenize";
+import { recordUsage } from "../usage";
+import { AiProvider } from "./types";
+import { withRetry } from "./shared";
+
+const DEFAULT_MODEL = "whisper-1";
+
+// Subset of OpenAI's `verbose_json` transcription response that we use
+interface VerboseJsonResponse {
+  language?: string;
+  duration?: number;
+  text: string;
+  segments?: { start: number; end: number; text: string }[];
+  words?: { word: string; start: number; end: number }[]; // Only with the "word" granularity
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/mp3': 'mp3',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/aac': 'aac',
+  'audio/flac': 'flac',
+  'audio/ogg': 'ogg',
+  'audio/webm': 'webm',
+};
+
+/**
+ * Maps Whisper segments onto ours. Translation and rewrite are left empty for the enrichment pass.
+ */
+const toTranscriptionResponse = (data: VerboseJsonResponse): TranscriptionResponse => {
+  // Word timings come back as one flat list; assign each word to the segment it starts in
+  const wordsIn = (start: number, end: number): WordTiming[] | undefined => {
+    if (!data.words?.length) return undefined;
+    return data.words
+      .filter(w => w.start >= start && w.start < end)
+      .map(w => ({ text: w.word.trim(), start: w.start, end: w.end }));
+  };
+
+  const segments: TranscriptionSegment[] = (data.segments || [])
+    .map(s => ({ start: s.start, end: s.end, text: s.text.trim(), words: wordsIn(s.start, s.end), translation: '', idiomatic: '' }))
+    .filter(s => s.text.length > 0);
+
+  // Whisper reports language names ("french"); map them to our codes
+  const language = data.language ? getSourceLanguage(data.language).code : 'en-US';
+  const wordCount = segments.reduce((sum, s) => sum + countWords(s.text, language), 0);
+  const duration = data.duration || segments[segments.length - 1]?.end || 0;
+
+  return {
+    language,
+    meta: {
+      wordCount,
+      estimatedLevel: 'N/A', // Whisper doesn't grade difficulty
+      speed: duration > 0 ? `${Math.round(wordCount / (duration / 60))} wpm` : 'N/A',
+    },
+    segments,
+  };
+};
+
+/**
+ * OpenAI-compatible `/audio/transcriptions` endpoint (OpenAI, whisper.cpp server, faster-whisper-server, ...).
+ * WHISPER_API_URL is the API base including the version, e.g. "http://localhost:8000/v1".
+ */
+const getEndpoint = () => {
+  const baseUrl = getWhisperApiUrl();
+  if (!baseUrl) {
+    throw new ApiKeyError("Whisper server URL is missing. Add it in Settings.", { provider: 'Whisper' });
+  }
+  const apiKey = loadCredentials().whisperApiKey.trim();
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ''),
+    headers: apiKey ? { "Authorization": `Bearer ${apiKey}` } : undefined, // Optional for local servers
+  };
+};
+
+const transcribe = async (audio: Blob, mimeType: string, languages: LanguageSettings, signal?: AbortSignal): Promise<TranscriptionResponse> => {
+  const { baseUrl, headers } = getEndpoint();
+
+  const form = new FormData();
+  form.append('file', audio, `audio.${EXTENSIONS[mimeType] || 'mp3'}`);
+  const model = env.WHISPER_MODEL || DEFAULT_MODEL;
+  form.append('model', model);
+  if (languages.sourceLanguage && languages.sourceLanguage !== AUTO_DETECT) {
+    // Whisper expects ISO-639-1 ("fr"), not a locale
+    form.append('language', languages.sourceLanguage.split('-')[0].toLowerCase());
+  }
+  form.append('response_format', 'verbose_json');
+  form.append('timestamp_granularities[]', 'segment');
+  form.append('timestamp_granularities[]', 'word');
+
+  return withRetry(async () => {
+    const response = await fetch(`${baseUrl}/audio/transcriptions`, {
+      method: "POST",
+      headers,
+      body: form,
+      signal,
+    });
+
+    if (!response.ok) {
+      throw await errorFromResponse(response, 'Whisper');
+    }
+
+    const data: VerboseJsonResponse = await response.json();
+    recordUsage({ capability: 'transcription', provider: 'Whisper', model, audioSeconds: data.duration, signal });
+    return toTranscriptionResponse(data);
+  }, { signal });
+};
+
+/**
+ * Transcription-only provider. Pair it with a text provider for enrichment.
+ */
+export const whisperProvider: AiProvider = {
+  id: 'whisper',
+  name: 'Whisper (OpenAI-compatible)',
+  isConfigured: () => !!getWhisperApiUrl(),
+  // OpenAI-compatible servers list their models at /models
+  testConnection: async (signal?: AbortSignal): Promise<string> => {
+    const { baseUrl, headers } = getEndpoint();
+    const response = await fetch(`${baseUrl}/models`, { headers, signal });
+    if (!response.ok) throw await errorFromResponse(response, 'Whisper');
+    return `Connected to ${baseUrl}.`;
+  },
+  transcribe,
+};
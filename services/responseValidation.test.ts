@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { validateTranscription } from './responseValidation';
+
+describe('validateTranscription', () => {
+  it('passes a well-formed response through', () => {
+    const result = validateTranscription({
+      language: 'fr-FR',
+      segments: [
+        { start: 0, end: 2, text: 'Bonjour à tous.', speaker: 'S1', translation: 'Hello everyone.', idiomatic: 'Salut tout le monde.',
+          words: [{ text: 'Bonjour', start: 0, end: 0.8 }, { text: 'à', start: 0.8, end: 1 }, { text: 'tous.', start: 1, end: 2 }] },
+        { start: 2.5, end: 4, text: 'On commence.', translation: "Let's begin.", idiomatic: '' },
+      ],
+      meta: { wordCount: 5, estimatedLevel: 'A2', speed: '120 wpm' },
+    }, 10);
+    expect(result.warnings).toBeUndefined();
+    expect(result.language).toBe('fr-FR');
+    expect(result.meta).toEqual({ wordCount: 5, estimatedLevel: 'A2', speed: '120 wpm' });
+    expect(result.segments).toHaveLength(2);
+    expect(result.segments[0]).toMatchObject({ speaker: 'S1', translation: 'Hello everyone.' });
+    expect(result.segments[0].words).toHaveLength(3);
+  });
+
+  it('normalizes language names to codes', () => {
+    expect(validateTranscription({ language: 'French', segments: [] }).language).toBe('fr-FR');
+  });
+
+  it('drops empty segments and estimates missing timestamps', () => {
+    const result = validateTranscription({
+      segments: [
+        { start: 0, end: 1, text: 'One.' },
+        { start: 1, end: 2, text: '   ' },
+        null,
+        { text: 'Two words.' },
+        { start: '3.5', end: 'soon', text: 'Three.' },
+      ],
+    });
+    expect(result.segments.map(s => [s.text, s.start])).toEqual([['One.', 0], ['Two words.', 1], ['Three.', 3.5]]);
+    expect(result.segments[1].end).toBeCloseTo(1.7);
+    expect(result.segments[2].end).toBeCloseTo(3.85);
+    expect(result.warnings).toEqual([
+      'Dropped 2 segments that were empty or beyond the end of the audio.',
+      'Estimated 3 missing or invalid timestamps.',
+    ]);
+  });
+
+  it('sorts segments, trims overlaps and clamps to the audio duration', () => {
+    const result = validateTranscription({
+      segments: [
+        { start: 4, end: 7, text: 'Second.' },
+        { start: 0, end: 5, text: 'First.' },
+        { start: 9, end: 10, text: 'After the end.' },
+      ],
+    }, 6);
+    expect(result.segments.map(s => [s.text, s.start, s.end])).toEqual([['First.', 0, 4], ['Second.', 4, 6]]);
+    expect(result.warnings).toEqual([
+      'Segments were out of order and have been re-sorted.',
+      'Dropped 1 segment that were empty or beyond the end of the audio.',
+      'Fixed 1 overlapping segment.',
+      'Trimmed 1 segment that ran past the end of the audio.',
+    ]);
+  });
+
+  it('drops word timings that end before they start', () => {
+    const result = validateTranscription({
+      segments: [{ start: 0, end: 2, text: 'Hi there.', words: [{ text: 'Hi', start: 1, end: 0.5 }, { text: 'there.', start: 1, end: 2 }] }],
+    });
+    expect(result.segments[0].words).toBeUndefined();
+  });
+
+  it('survives responses that are not objects', () => {
+    for (const raw of [null, 'text', 42, [], { segments: 'none' }]) {
+      const result = validateTranscription(raw);
+      expect(result.segments).toEqual([]);
+      expect(result.language).toBe('en-US');
+      expect(result.meta).toEqual({ wordCount: 0, estimatedLevel: 'N/A', speed: 'N/A' });
+      expect(result.warnings).toContain('The AI response contained no segment list.');
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { TranscriptionResponse, TranscriptionSegment, WordTiming } from '../types';
+import { countWords as countTokens } from './tokenize';
+import { getSourceLanguage } from './languages';
+
+// Rough speaking rate, used when a segment's end time is missing or invalid
+const SECONDS_PER_WORD = 0.35;
+
+const toNumber = (value: unknown): number => {
+  const n = typeof value === 'string' ? parseFloat(value) : Number(value);
+  return Number.isFinite(n) ? n : NaN;
+};
+
+const toOptionalString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value : undefined;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * Keeps word timings that make sense inside their segment, or drops them so they get re-estimated.
+ */
+const validateWords = (words: unknown, start: number, end: number): WordTiming[] | undefined => {
+  if (!Array.isArray(words) || words.length === 0) return undefined;
+  const result: WordTiming[] = [];
+  for (const w of words) {
+    if (!isRecord(w)) return undefined;
+    const text = typeof w.text === 'string' ? w.text.trim() : '';
+    const wStart = toNumber(w.start);
+    const wEnd = toNumber(w.end);
+    if (!text || isNaN(wStart) || isNaN(wEnd) || wEnd < wStart) return undefined;
+    result.push({ text, start: Math.min(Math.max(wStart, start), end), end: Math.min(Math.max(wEnd, start), end) });
+  }
+  return result;
+};
+
+/**
+ * Normalizes a (possibly repaired) transcription from any provider:
+ * drops empty segments, fixes missing/negative/overlapping timestamps, sorts them,
+ * clamps them to the audio duration and fills missing fields.
+ * Everything that had to be fixed is reported in `warnings` rather than thrown.
+ */
+export const validateTranscription = (raw: unknown, duration?: number): TranscriptionResponse => {
+  const response = isRecord(raw) ? raw : {};
+  // Models sometimes answer "French" or "fr" instead of "fr-FR"
+  const language = typeof response.language === 'string' && response.language ? getSourceLanguage(response.language).code : 'en-US';
+  const countWords = (text: string) => countTokens(text, language);
+  const warnings = Array.isArray(response.warnings)
+    ? response.warnings.filter((w): w is string => typeof w === 'string')
+    : [];
+  const rawSegments: unknown[] = Array.isArray(response.segments) ? response.segments : [];
+  if (!Array.isArray(response.segments)) warnings.push('The AI response contained no segment list.');
+
+  let dropped = 0;
+  let fixedTimes = 0;
+  let segments: TranscriptionSegment[] = [];
+
+  for (const s of rawSegments) {
+    const text = isRecord(s) && typeof s.text === 'string' ? s.text.trim() : '';
+    if (!isRecord(s) || !text) { dropped++; continue; }
+
+    const previousEnd = segments.length ? segments[segments.length - 1].end : 0;
+    const estimated = countWords(text) * SECONDS_PER_WORD;
+    let start = toNumber(s.start);
+    let end = toNumber(s.end);
+
+    if (isNaN(start) || start < 0) { start = isNaN(start) ? previousEnd : 0; fixedTimes++; }
+    if (isNaN(end) || end <= start) { end = start + estimated; fixedTimes++; }
+
+    segments.push({
+      start,
+      end,
+      text,
+      words: validateWords(s.words, start, end),
+      speaker: toOptionalString(s.speaker)?.trim(),
+      translation: typeof s.translation === 'string' ? s.translation : '',
+      idiomatic: typeof s.idiomatic === 'string' ? s.idiomatic : '',
+      idiomExplanation: toOptionalString(s.idiomExplanation),
+      ...(s.isFavorite ? { isFavorite: true } : {}),
+    });
+  }
+
+  // Out-of-order segments
+  const isSorted = segments.every((s, i) => i === 0 || segments[i - 1].start <= s.start);
+  if (!isSorted) {
+    segments = [...segments].sort((a, b) => a.start - b.start);
+    warnings.push('Segments were out of order and have been re-sorted.');
+  }
+
+  // Overlaps: trim the earlier segment
+  let overlaps = 0;
+  for (let i = 1; i < segments.length; i++) {
+    const prev = segments[i - 1];
+    if (prev.end > segments[i].start) {
+      segments[i - 1] = { ...prev, end: Math.max(prev.start, segments[i].start) };
+      overlaps++;
+    }
+  }
+
+  // Past the end of the audio
+  let clamped = 0;
+  if (duration && duration > 0) {
+    const before = segments.length;
+    segments = segments.filter(s => s.start < duration);
+    dropped += before - segments.length;
+    segments = segments.map(s => {
+      if (s.end <= duration) return s;
+      clamped++;
+      return { ...s, end: duration, words: s.words?.map(w => ({ ...w, start: Math.min(w.start, duration), end: Math.min(w.end, duration) })) };
+    });
+  }
+
+  if (dropped > 0) warnings.push(`Dropped ${plural(dropped, 'segment')} that were empty or beyond the end of the audio.`);
+  if (fixedTimes > 0) warnings.push(`Estimated ${plural(fixedTimes, 'missing or invalid timestamp')}.`);
+  if (overlaps > 0) warnings.push(`Fixed ${plural(overlaps, 'overlapping segment')}.`);
+  if (clamped > 0) warnings.push(`Trimmed ${plural(clamped, 'segment')} that ran past the end of the audio.`);
+
+  const wordCount = segments.reduce((sum, s) => sum + countWords(s.text), 0);
+  const spokenSeconds = duration || (segments.length ? segments[segments.length - 1].end : 0);
+
+  const meta = isRecord(response.meta) ? response.meta : {};
+
+  return {
+    language,
+    segments,
+    meta: {
+      wordCount: typeof meta.wordCount === 'number' && Number.isFinite(meta.wordCount) ? meta.wordCount : wordCount,
+      estimatedLevel: toOptionalString(meta.estimatedLevel) || 'N/A',
+      speed: toOptionalString(meta.speed) ||
+        (spokenSeconds > 0 ? `${Math.round(wordCount / (spokenSeconds / 60))} wpm` : 'N/A'),
+    },
+    ...(warnings.length ? { warnings } : {}),
+  };
+};
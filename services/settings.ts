@@ -0,0 +1,40 @@
+import { AppSettings } from '../types';
+import { DEFAULT_NATIVE_LANGUAGE, AUTO_DETECT } from './languages';
+import { env } from './env';
+
+const STORAGE_KEY = 'linguasync.settings';
+
+export const DEFAULT_MODELS = {
+  transcriptionModel: 'gemini-2.5-flash',
+  ttsModel: 'gemini-2.5-flash-preview-tts',
+  textModel: 'gemini-2.5-flash',
+};
+
+const DEFAULT_SETTINGS: AppSettings = {
+  nativeLanguage: DEFAULT_NATIVE_LANGUAGE,
+  sourceLanguage: AUTO_DETECT,
+  monthlyBudget: 0,
+  modelPrices: {},
+  ...DEFAULT_MODELS,
+  apiMode: env.API_MODE === 'proxy' || env.API_MODE === 'mock' ? env.API_MODE : 'direct',
+  proxyUrl: env.PROXY_URL || '/api',
+};
+
+/**
+ * User preferences, persisted in localStorage.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch (e) {
+    console.warn("Failed to read settings, using defaults", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (changes: Partial<AppSettings>): AppSettings => {
+  const next = { ...loadSettings(), ...changes };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
@@ -0,0 +1,18 @@
+import { TranscriptionSegment } from '../types';
+
+/**
+ * Speaker labels in order of first appearance.
+ */
+export const listSpeakers = (segments: TranscriptionSegment[]): string[] => {
+  const labels: string[] = [];
+  for (const segment of segments) {
+    if (segment.speaker && !labels.includes(segment.speaker)) labels.push(segment.speaker);
+  }
+  return labels;
+};
+
+/**
+ * The user's name for a speaker, or "Speaker 2" for label 'S2'.
+ */
+export const getSpeakerName = (label: string, names?: Record<string, string>): string =>
+  names?.[label] || `Speaker ${label.replace(/^S/i, '')}`;
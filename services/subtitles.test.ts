@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getSubtitleFormat, guessLanguageFromScript, parseSubtitles } from './subtitles';
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues, dropping numbers, formatting and empty cues', () => {
+    const srt = '\uFEFF1\r\n00:00:01,000 --> 00:00:03,500\r\n<i>Hello</i> there,\r\nfriend.\r\n\r\n'
+      + '2\r\n00:00:04,000 --> 00:00:05,000\r\n{\\an8}Tom &amp; Jerry\r\n\r\n'
+      + '3\r\n00:00:06,000 --> 00:00:07,000\r\n<i></i>\r\n';
+    const { segments, language } = parseSubtitles(srt, 'srt');
+    expect(segments.map(s => [s.start, s.end, s.text])).toEqual([
+      [1, 3.5, 'Hello there, friend.'],
+      [4, 5, 'Tom & Jerry'],
+    ]);
+    expect(segments[0]).toMatchObject({ translation: '', idiomatic: '' });
+    expect(language).toBeUndefined();
+  });
+
+  it('skips cues with broken or reversed timings and sorts the rest', () => {
+    const srt = '1\n00:00:09,000 --> 00:00:10,000\nLast.\n\n'
+      + '2\n00:00:05,000 --> 00:00:04,000\nReversed.\n\n'
+      + '3\nsoon --> later\nBroken.\n\n'
+      + '4\n00:00:02,000 --> 00:00:03,000\nFirst.';
+    expect(parseSubtitles(srt, 'srt').segments.map(s => s.text)).toEqual(['First.', 'Last.']);
+  });
+
+  it('reads VTT headers, cue settings and voices', () => {
+    const vtt = 'WEBVTT\nKind: captions\nLanguage: es-ES\n\n'
+      + 'NOTE a comment --> not a cue\n\n'
+      + 'intro\n00:01.000 --> 00:02.500 align:start position:10%\n<v Ana>Hola.</v>\n\n'
+      + '00:03.000 --> 00:04.000\n<v.loud Luis>¿Qué tal?\n\n'
+      + '01:00:05.000 --> 01:00:06.000\n<v Ana>Bien.';
+    const { segments, language } = parseSubtitles(vtt, 'vtt');
+    expect(language).toBe('es-ES');
+    expect(segments.map(s => [s.start, s.end, s.text, s.speaker])).toEqual([
+      [1, 2.5, 'Hola.', 'S1'],
+      [3, 4, '¿Qué tal?', 'S2'],
+      [3605, 3606, 'Bien.', 'S1'],
+    ]);
+  });
+
+  it('reads LRC lines, ending each at the next one', () => {
+    const lrc = '[ti:Song]\n[la:fr-FR]\n[00:01.00]Premier vers\n[00:04.50]\n[00:06.00]Dernier vers';
+    const { segments, language } = parseSubtitles(lrc, 'lrc');
+    expect(language).toBe('fr-FR');
+    expect(segments.map(s => [s.start, s.end, s.text])).toEqual([
+      [1, 4.5, 'Premier vers'],
+      [6, 10, 'Dernier vers'],
+    ]);
+  });
+
+  it('repeats LRC lines with several time tags and applies the offset', () => {
+    const lrc = '[offset:+500]\n[00:01.00][00:10.00]Chorus\n[00:05.00]Verse';
+    expect(parseSubtitles(lrc, 'lrc').segments.map(s => [s.start, s.end, s.text])).toEqual([
+      [1.5, 5.5, 'Chorus'],
+      [5.5, 10.5, 'Verse'],
+      [10.5, 14.5, 'Chorus'],
+    ]);
+  });
+
+  it('turns enhanced LRC word tags into word timings', () => {
+    const lrc = '[00:01.00]<00:01.00>One <00:01.50>two <00:02.00>three\n[00:03.00]Next';
+    const [first] = parseSubtitles(lrc, 'lrc').segments;
+    expect(first.text).toBe('One two three');
+    expect(first.words).toEqual([
+      { text: 'One', start: 1, end: 1.5 },
+      { text: 'two', start: 1.5, end: 2 },
+      { text: 'three', start: 2, end: 3 },
+    ]);
+  });
+});
+
+describe('getSubtitleFormat', () => {
+  it('recognises subtitle extensions in any case', () => {
+    expect(getSubtitleFormat('Episode 1.SRT')).toBe('srt');
+    expect(getSubtitleFormat('talk.en.vtt')).toBe('vtt');
+    expect(getSubtitleFormat('song.lrc')).toBe('lrc');
+    expect(getSubtitleFormat('audio.mp3')).toBeNull();
+    expect(getSubtitleFormat('README')).toBeNull();
+  });
+});
+
+describe('guessLanguageFromScript', () => {
+  const cue = (text: string) => ({ start: 0, end: 1, text, translation: '', idiomatic: '' });
+
+  it('recognises scripts that identify a language', () => {
+    expect(guessLanguageFromScript([cue('今日は天気がいいですね')])).toBe('ja-JP');
+    expect(guessLanguageFromScript([cue('안녕하세요')])).toBe('ko-KR');
+    expect(guessLanguageFromScript([cue('你好世界')])).toBe('zh-CN');
+    expect(guessLanguageFromScript([cue('Bonjour')])).toBeNull();
+  });
+});
@@ -0,0 +1,166 @@
+import { TranscriptionSegment, WordTiming } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'lrc';
+
+export interface ParsedSubtitles {
+  segments: TranscriptionSegment[];
+  language?: string; // Only when the file declares it (VTT "Language:" header, LRC [la:] tag)
+}
+
+// LRC only has start times; a line without a successor lasts this long
+const LRC_LAST_LINE_SECONDS = 4;
+
+export const SUBTITLE_EXTENSIONS: Record<string, SubtitleFormat> = {
+  srt: 'srt',
+  vtt: 'vtt',
+  lrc: 'lrc',
+};
+
+export const getSubtitleFormat = (fileName: string): SubtitleFormat | null =>
+  SUBTITLE_EXTENSIONS[fileName.toLowerCase().split('.').pop() || ''] || null;
+
+/**
+ * "01:02:03,456", "02:03.456" or "02:03" to seconds. NaN when it isn't a timestamp.
+ */
+const parseTimestamp = (value: string): number => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return NaN;
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+/**
+ * Drops formatting: HTML-style tags (<i>, <c.yellow>), ASS overrides ({\an8}) and entities.
+ */
+const cleanCueText = (lines: string[]) =>
+  lines
+    .join(' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const toSegment = (start: number, end: number, text: string, extra: Partial<TranscriptionSegment> = {}): TranscriptionSegment =>
+  ({ start, end, text, translation: '', idiomatic: '', ...extra });
+
+const splitBlocks = (text: string) =>
+  text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/).map(block => block.split('\n').filter(line => line.trim()));
+
+/**
+ * SRT and VTT cues share the "start --> end" line; VTT adds cue settings after the end
+ * time and `<v Speaker>` voice tags, which become speaker labels.
+ */
+const parseCueBlocks = (text: string, format: 'srt' | 'vtt'): ParsedSubtitles => {
+  const segments: TranscriptionSegment[] = [];
+  const speakerLabels = new Map<string, string>();
+  let language: string | undefined;
+
+  for (const lines of splitBlocks(text)) {
+    if (format === 'vtt' && /^WEBVTT/.test(lines[0] || '')) {
+      language = lines.map(line => line.match(/^Language:\s*(\S+)/i)?.[1]).find(Boolean);
+      continue;
+    }
+    if (format === 'vtt' && /^(NOTE|STYLE|REGION)\b/.test(lines[0] || '')) continue;
+
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1) continue;
+    const [startText, rest = ''] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) continue;
+
+    const textLines = lines.slice(timingIndex + 1);
+    const voice = textLines.join(' ').match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/)?.[1]?.trim();
+    const cueText = cleanCueText(textLines);
+    if (!cueText) continue;
+
+    let speaker: string | undefined;
+    if (voice) {
+      if (!speakerLabels.has(voice)) speakerLabels.set(voice, `S${speakerLabels.size + 1}`);
+      speaker = speakerLabels.get(voice);
+    }
+    segments.push(toSegment(start, end, cueText, speaker ? { speaker } : {}));
+  }
+  return { segments, language };
+};
+
+/**
+ * LRC lines: one or more [mm:ss.xx] tags, then the text. Enhanced LRC's inline
+ * <mm:ss.xx> word tags become word timings. [offset:±ms] shifts everything.
+ */
+const parseLrc = (text: string): ParsedSubtitles => {
+  const lines: { start: number; text: string; words?: WordTiming[] }[] = [];
+  let offset = 0;
+  let language: string | undefined;
+
+  for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const meta = line.match(/^\[(offset|la):\s*([^\]]*)\]/i);
+    if (meta) {
+      if (meta[1].toLowerCase() === 'offset') offset = (Number(meta[2]) || 0) / 1000;
+      else language = meta[2].trim() || undefined;
+      continue;
+    }
+
+    const tags = [...line.matchAll(/\[(\d+:\d{1,2}(?:[.,]\d{1,3})?)\]/g)];
+    if (tags.length === 0) continue;
+    const body = line.slice(tags[tags.length - 1].index! + tags[tags.length - 1][0].length);
+
+    const wordTags = [...body.matchAll(/<(\d+:\d{1,2}(?:[.,]\d{1,3})?)>([^<]*)/g)];
+    const words = wordTags
+      .map(([, time, word]) => ({ text: word.trim(), start: parseTimestamp(time) }))
+      .filter(w => w.text && Number.isFinite(w.start));
+    // Empty lines are kept for now: they end the previous line (e.g. an instrumental break)
+    const lineText = cleanCueText([body]);
+
+    for (const [, time] of tags) {
+      const start = parseTimestamp(time);
+      if (!Number.isFinite(start)) continue;
+      lines.push({
+        start,
+        text: lineText,
+        // Word tags are absolute times, so they only fit the first occurrence of a repeated line
+        words: words.length && lineText && time === tags[0][1]
+          ? words.map((w, i) => ({ text: w.text, start: w.start, end: words[i + 1]?.start ?? w.start }))
+          : undefined,
+      });
+    }
+  }
+
+  lines.sort((a, b) => a.start - b.start);
+  const segments = lines.map((line, i) => {
+    const start = Math.max(0, line.start + offset);
+    const end = Math.max(start, (lines[i + 1]?.start ?? line.start + LRC_LAST_LINE_SECONDS) + offset);
+    const words = line.words?.map((w, j, all) => ({
+      text: w.text,
+      start: w.start + offset,
+      end: j === all.length - 1 ? end : w.end + offset,
+    }));
+    return toSegment(start, end, line.text, words ? { words } : {});
+  }).filter(segment => segment.text && segment.end > segment.start);
+
+  return { segments, language };
+};
+
+/**
+ * Parses subtitle cues into untranslated segments (start, end, text), sorted by time.
+ */
+export const parseSubtitles = (text: string, format: SubtitleFormat): ParsedSubtitles => {
+  const parsed = format === 'lrc' ? parseLrc(text) : parseCueBlocks(text, format);
+  return { ...parsed, segments: [...parsed.segments].sort((a, b) => a.start - b.start) };
+};
+
+/**
+ * Best guess at the spoken language from the script of the cue text. Only scripts that
+ * identify a language are recognised; Latin text returns null.
+ */
+export const guessLanguageFromScript = (segments: TranscriptionSegment[]): string | null => {
+  const sample = segments.slice(0, 50).map(s => s.text).join(' ');
+  if (/[぀-ヿ]/.test(sample)) return 'ja-JP';
+  if (/[가-힯]/.test(sample)) return 'ko-KR';
+  if (/[一-鿿]/.test(sample)) return 'zh-CN';
+  return null;
+};
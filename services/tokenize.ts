@@ -0,0 +1,41 @@
+import { isUnspacedLanguage } from './languages';
+
+// Letters (any script), combining marks, digits, apostrophes and inner hyphens
+const WORD_CHARS = /[\p{L}\p{M}\p{N}'’-]/u;
+
+/**
+ * Splits text into display tokens (each keeps its punctuation).
+ * Spaced scripts split on whitespace. Japanese, Chinese etc. use Intl.Segmenter's
+ * dictionary-based word segmentation, falling back to one token per character.
+ */
+export const tokenize = (text: string, language?: string): string[] => {
+  if (!isUnspacedLanguage(language)) {
+    return text.split(/\s+/).filter(Boolean);
+  }
+
+  // Older browsers (e.g. Firefox before 125) have no Intl.Segmenter
+  const pieces: { segment: string; isWordLike: boolean }[] = typeof Intl.Segmenter === 'function'
+    ? Array.from(new Intl.Segmenter(language, { granularity: 'word' }).segment(text), ({ segment, isWordLike }) => ({ segment, isWordLike: !!isWordLike }))
+    : Array.from(text).map(ch => ({ segment: ch, isWordLike: WORD_CHARS.test(ch) }));
+
+  // Attach punctuation to the preceding word so it isn't clickable on its own
+  const tokens: string[] = [];
+  for (const piece of pieces) {
+    if (!piece.segment.trim()) continue;
+    if (!piece.isWordLike && tokens.length > 0) {
+      tokens[tokens.length - 1] += piece.segment;
+    } else {
+      tokens.push(piece.segment);
+    }
+  }
+  return tokens;
+};
+
+export const countWords = (text: string, language?: string): number =>
+  tokenize(text, language).filter(token => WORD_CHARS.test(token)).length;
+
+/**
+ * Strips punctuation from a token for dictionary lookups (works for any script).
+ */
+export const cleanWord = (token: string): string =>
+  Array.from(token).filter(ch => WORD_CHARS.test(ch)).join('').replace(/^['’-]+|['’-]+$/g, '');
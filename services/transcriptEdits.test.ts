@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionSegment } from '../types';
+import { editSegmentText, mergeWithNext, nudgedTimes, nudgeSegment, splitSegment } from './transcriptEdits';
+
+const segment = (start: number, end: number, text: string, extra: Partial<TranscriptionSegment> = {}): TranscriptionSegment => ({
+  start, end, text, translation: `T: ${text}`, idiomatic: `I: ${text}`, ...extra,
+});
+
+const transcript = () => [
+  segment(0, 2, 'Good morning everyone.'),
+  segment(2.5, 5, 'Let us begin.', { isFavorite: true }),
+  segment(6, 8, 'First topic.'),
+];
+
+describe('editSegmentText', () => {
+  it('replaces the text and clears the translation and rewrite', () => {
+    const segments = transcript();
+    const result = editSegmentText(segments, 0, '  Good evening everyone. ');
+    expect(result[0]).toMatchObject({ text: 'Good evening everyone.', translation: '', idiomatic: '', start: 0, end: 2 });
+    expect(result[0].words?.map(w => w.text)).toEqual(['Good', 'evening', 'everyone.']);
+    expect(segments[0].text).toBe('Good morning everyone.');
+  });
+
+  it('returns the same list for unchanged or empty text', () => {
+    const segments = transcript();
+    expect(editSegmentText(segments, 0, 'Good morning everyone.')).toBe(segments);
+    expect(editSegmentText(segments, 0, '   ')).toBe(segments);
+    expect(editSegmentText(segments, 9, 'Nothing here.')).toBe(segments);
+  });
+});
+
+describe('splitSegment', () => {
+  it('splits before a word, dividing the time by text length', () => {
+    const result = splitSegment(transcript(), 0, 2);
+    expect(result).toHaveLength(4);
+    expect(result[0]).toMatchObject({ text: 'Good morning', start: 0, translation: '', idiomatic: '' });
+    expect(result[1]).toMatchObject({ text: 'everyone.', end: 2 });
+    expect(result[0].end).toBe(result[1].start);
+    expect(result[0].end).toBeCloseTo(2 * 12 / 21);
+  });
+
+  it('cuts at the given time, keeping both halves at least 0.1s long', () => {
+    expect(splitSegment(transcript(), 0, 1, undefined, 1.5)[0].end).toBe(1.5);
+    expect(splitSegment(transcript(), 0, 1, undefined, 5)[0].end).toBeCloseTo(1.9);
+  });
+
+  it('joins unspaced languages without spaces', () => {
+    const result = splitSegment([segment(0, 3, '你好世界', { words: [
+      { text: '你好', start: 0, end: 1.5 }, { text: '世界', start: 1.5, end: 3 },
+    ] })], 0, 1, 'zh-CN');
+    expect(result.map(s => s.text)).toEqual(['你好', '世界']);
+  });
+
+  it('ignores split points at either end', () => {
+    const segments = transcript();
+    expect(splitSegment(segments, 0, 0)).toBe(segments);
+    expect(splitSegment(segments, 0, 3)).toBe(segments);
+  });
+});
+
+describe('mergeWithNext', () => {
+  it('joins text, translations, rewrites and words and spans both timings', () => {
+    const segments = transcript();
+    const result = mergeWithNext(segments, 0);
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({
+      start: 0,
+      end: 5,
+      text: 'Good morning everyone. Let us begin.',
+      translation: 'T: Good morning everyone. T: Let us begin.',
+      idiomatic: 'I: Good morning everyone. I: Let us begin.',
+      isFavorite: true,
+    });
+    expect(result[0].words).toHaveLength(6);
+    expect(result[1]).toBe(segments[2]);
+  });
+
+  it('does nothing for the last segment', () => {
+    const segments = transcript();
+    expect(mergeWithNext(segments, 2)).toBe(segments);
+  });
+});
+
+describe('nudgedTimes', () => {
+  it('moves an edge by the delta', () => {
+    expect(nudgedTimes(transcript(), 1, 'start', -0.2)).toEqual({ start: 2.3, end: 5 });
+    expect(nudgedTimes(transcript(), 1, 'end', 0.5)).toEqual({ start: 2.5, end: 5.5 });
+  });
+
+  it('stops at the neighbours and the end of the audio', () => {
+    expect(nudgedTimes(transcript(), 1, 'start', -1)).toEqual({ start: 2, end: 5 });
+    expect(nudgedTimes(transcript(), 1, 'end', 2)).toEqual({ start: 2.5, end: 6 });
+    expect(nudgedTimes(transcript(), 0, 'start', -1)).toEqual({ start: 0, end: 2 });
+    expect(nudgedTimes(transcript(), 2, 'end', 5, 9)).toEqual({ start: 6, end: 9 });
+  });
+
+  it('keeps the segment at least 0.1s long', () => {
+    expect(nudgedTimes(transcript(), 2, 'start', 5)).toEqual({ start: 7.9, end: 8 });
+    expect(nudgedTimes(transcript(), 2, 'end', -5)).toEqual({ start: 6, end: 6.1 });
+  });
+});
+
+describe('nudgeSegment', () => {
+  it('applies the clamped timing and stretches the word timings', () => {
+    const segments = [segment(0, 2, 'One two.', { words: [{ text: 'One', start: 0, end: 1 }, { text: 'two.', start: 1, end: 2 }] })];
+    const [nudged] = nudgeSegment(segments, 0, 'end', 2, 3);
+    expect(nudged).toMatchObject({ start: 0, end: 3 });
+    expect(nudged.words).toEqual([{ text: 'One', start: 0, end: 1.5 }, { text: 'two.', start: 1.5, end: 3 }]);
+    expect(segments[0].end).toBe(2);
+  });
+
+  it('returns the same list when the edge cannot move', () => {
+    const segments = transcript();
+    expect(nudgeSegment(segments, 0, 'start', -1)).toBe(segments);
+  });
+});
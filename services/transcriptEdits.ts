@@ -0,0 +1,166 @@
+import { TranscriptionSegment, WordTiming } from '../types';
+import { estimateWordTimings } from './wordTiming';
+import { isUnspacedLanguage } from './languages';
+
+/**
+ * Pure edit operations for the transcript editor. Each returns a new segment list
+ * and leaves the input untouched, so the previous list can go on the undo stack.
+ */
+
+// Shortest segment an edit may produce
+const MIN_SEGMENT_SECONDS = 0.1;
+
+const wordsOf = (segment: TranscriptionSegment, language?: string): WordTiming[] =>
+  segment.words?.length ? segment.words : estimateWordTimings(segment, language);
+
+const joinWords = (words: WordTiming[], language?: string) =>
+  words.map(w => w.text).join(isUnspacedLanguage(language) ? '' : ' ');
+
+const rescaleWords = (words: WordTiming[] | undefined, from: TranscriptionSegment, start: number, end: number) => {
+  const scale = (end - start) / Math.max(0.001, from.end - from.start);
+  return words?.map(w => ({
+    ...w,
+    start: start + (w.start - from.start) * scale,
+    end: start + (w.end - from.start) * scale,
+  }));
+};
+
+/**
+ * Replaces a segment's text. Word timings are re-estimated and the translation and
+ * rewrite are cleared, since they described the old text (enrichment fills them again).
+ */
+export const editSegmentText = (
+  segments: TranscriptionSegment[],
+  index: number,
+  text: string,
+  language?: string
+): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const trimmed = text.trim();
+  if (!segment || !trimmed || trimmed === segment.text) return segments;
+
+  const result = [...segments];
+  result[index] = {
+    ...segment,
+    text: trimmed,
+    words: estimateWordTimings({ ...segment, text: trimmed }, language),
+    translation: '',
+    idiomatic: '',
+    idiomExplanation: undefined,
+  };
+  return result;
+};
+
+/**
+ * Splits a segment before word `wordIndex`. Without `at` the time is divided in
+ * proportion to the text on each side; with `at` (e.g. the playback position)
+ * the cut happens there.
+ */
+export const splitSegment = (
+  segments: TranscriptionSegment[],
+  index: number,
+  wordIndex: number,
+  language?: string,
+  at?: number
+): TranscriptionSegment[] => {
+  const segment = segments[index];
+  if (!segment) return segments;
+  const words = wordsOf(segment, language);
+  if (wordIndex <= 0 || wordIndex >= words.length) return segments;
+
+  const firstWords = words.slice(0, wordIndex);
+  const secondWords = words.slice(wordIndex);
+  const firstText = joinWords(firstWords, language);
+  const secondText = joinWords(secondWords, language);
+
+  const proportional = segment.start +
+    (segment.end - segment.start) * (firstText.length / Math.max(1, firstText.length + secondText.length));
+  const cut = Math.min(
+    segment.end - MIN_SEGMENT_SECONDS,
+    Math.max(segment.start + MIN_SEGMENT_SECONDS, at !== undefined ? at : proportional)
+  );
+
+  // Translation and rewrite covered the whole sentence; both halves get fresh ones
+  const base = { ...segment, translation: '', idiomatic: '', idiomExplanation: undefined };
+  const first: TranscriptionSegment = { ...base, end: cut, text: firstText };
+  const second: TranscriptionSegment = { ...base, start: cut, text: secondText };
+  first.words = estimateWordTimings(first, language);
+  second.words = estimateWordTimings(second, language);
+
+  return [...segments.slice(0, index), first, second, ...segments.slice(index + 1)];
+};
+
+/**
+ * Merges a segment with the one after it.
+ */
+export const mergeWithNext = (
+  segments: TranscriptionSegment[],
+  index: number,
+  language?: string
+): TranscriptionSegment[] => {
+  const current = segments[index];
+  const next = segments[index + 1];
+  if (!current || !next) return segments;
+
+  const separator = isUnspacedLanguage(language) ? '' : ' ';
+  const join = (a?: string, b?: string) => [a, b].filter(s => s?.trim()).join(separator);
+  const merged: TranscriptionSegment = {
+    ...current,
+    end: next.end,
+    text: join(current.text, next.text),
+    words: [...wordsOf(current, language), ...wordsOf(next, language)],
+    translation: [current.translation, next.translation].filter(s => s?.trim()).join(' '),
+    idiomatic: join(current.idiomatic, next.idiomatic),
+    idiomExplanation: [current.idiomExplanation, next.idiomExplanation].filter(Boolean).join(' ') || undefined,
+    enrichmentFailed: current.enrichmentFailed || next.enrichmentFailed || undefined,
+    isFavorite: current.isFavorite || next.isFavorite || undefined,
+  };
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+};
+
+/**
+ * Where a segment's start and end land after nudging one edge by `delta` seconds:
+ * not past its neighbours or the end of the audio, and at least MIN_SEGMENT_SECONDS long.
+ */
+export const nudgedTimes = (
+  segments: TranscriptionSegment[],
+  index: number,
+  edge: 'start' | 'end',
+  delta: number,
+  duration?: number
+): { start: number; end: number } | null => {
+  const segment = segments[index];
+  if (!segment) return null;
+
+  let { start, end } = segment;
+  if (edge === 'start') {
+    const min = index > 0 ? segments[index - 1].end : 0;
+    start = Math.min(end - MIN_SEGMENT_SECONDS, Math.max(min, start + delta));
+  } else {
+    const max = index < segments.length - 1 ? segments[index + 1].start : (duration || Infinity);
+    end = Math.max(start + MIN_SEGMENT_SECONDS, Math.min(max, end + delta));
+  }
+  return { start, end };
+};
+
+/**
+ * Moves a segment's start or end by `delta` seconds (see nudgedTimes).
+ * Word timings stretch to fit.
+ */
+export const nudgeSegment = (
+  segments: TranscriptionSegment[],
+  index: number,
+  edge: 'start' | 'end',
+  delta: number,
+  duration?: number
+): TranscriptionSegment[] => {
+  const segment = segments[index];
+  const times = nudgedTimes(segments, index, edge, delta, duration);
+  if (!segment || !times) return segments;
+  const { start, end } = times;
+  if (start === segment.start && end === segment.end) return segments;
+
+  const result = [...segments];
+  result[index] = { ...segment, start, end, words: rescaleWords(segment.words, segment, start, end) };
+  return result;
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptionResponse } from '../types';
+import { DEFAULT_EXPORT_OPTIONS, exportFileName, exportTranscript } from './transcriptExport';
+import { parseSubtitles } from './subtitles';
+
+const transcription: TranscriptionResponse = {
+  language: 'es-ES',
+  nativeLanguage: 'zh-CN',
+  meta: { wordCount: 6, estimatedLevel: 'A2', speed: '90 wpm' },
+  speakerNames: { S1: 'Ana' },
+  segments: [
+    { start: 1, end: 2.5, text: 'Hola, ¿qué tal?', speaker: 'S1', translation: '你好，怎么样？', idiomatic: '¿Qué onda?', idiomExplanation: 'Casual Mexican greeting.', isFavorite: true },
+    { start: 3, end: 4.25, text: 'Muy bien.', speaker: 'S2', translation: '很好。', idiomatic: '' },
+    { start: 3725.5, end: 3727, text: 'Adiós <3 --> luego', translation: '', idiomatic: '' },
+  ],
+};
+
+describe('exportTranscript', () => {
+  it('writes numbered SRT cues with the selected layers', () => {
+    expect(exportTranscript(transcription, 'srt', DEFAULT_EXPORT_OPTIONS, 'Demo')).toBe(
+      '1\n00:00:01,000 --> 00:00:02,500\nHola, ¿qué tal?\n你好，怎么样？\n\n'
+      + '2\n00:00:03,000 --> 00:00:04,250\nMuy bien.\n很好。\n\n'
+      + '3\n01:02:05,500 --> 01:02:07,000\nAdiós <3 --> luego\n'
+    );
+  });
+
+  it('skips segments without any of the selected layers and renumbers', () => {
+    const srt = exportTranscript(transcription, 'srt', { layers: ['idiomatic'], favoritesOnly: false }, 'Demo');
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:02,500\n¿Qué onda?\n');
+  });
+
+  it('writes VTT with the language, speaker voices and escaped cue text', () => {
+    const vtt = exportTranscript(transcription, 'vtt', { layers: ['original'], favoritesOnly: false }, 'Demo');
+    expect(vtt).toBe(
+      'WEBVTT\nLanguage: es-ES\n\n'
+      + '00:00:01.000 --> 00:00:02.500\n<v Ana>Hola, ¿qué tal?\n\n'
+      + '00:00:03.000 --> 00:00:04.250\n<v Speaker 2>Muy bien.\n\n'
+      + '01:02:05.500 --> 01:02:07.000\nAdiós &lt;3 --&gt; luego\n'
+    );
+  });
+
+  it('writes VTT that the subtitle importer reads back', () => {
+    const vtt = exportTranscript(transcription, 'vtt', { layers: ['original'], favoritesOnly: false }, 'Demo');
+    const parsed = parseSubtitles(vtt, 'vtt');
+    expect(parsed.language).toBe('es-ES');
+    expect(parsed.segments.map(s => [s.start, s.end, s.text, s.speaker])).toEqual([
+      [1, 2.5, 'Hola, ¿qué tal?', 'S1'],
+      [3, 4.25, 'Muy bien.', 'S2'],
+      [3725.5, 3727, 'Adiós <3 --> luego', undefined],
+    ]);
+  });
+
+  it('writes LRC with layers on one line and clears the display in long gaps', () => {
+    expect(exportTranscript(transcription, 'lrc', DEFAULT_EXPORT_OPTIONS, 'Demo')).toBe([
+      '[ti:Demo]',
+      '[la:es-ES]',
+      '[re:LinguaSync]',
+      '[00:01.00]Hola, ¿qué tal? / 你好，怎么样？',
+      '[00:03.00]Muy bien. / 很好。',
+      '[00:04.25]',
+      '[62:05.50]Adiós <3 --> luego',
+      '[62:07.00]',
+    ].join('\n') + '\n');
+  });
+
+  it('writes a Markdown study sheet of the favorites', () => {
+    const markdown = exportTranscript(transcription, 'markdown', { layers: ['original', 'translation', 'idiomatic', 'explanation'], favoritesOnly: true }, 'Demo');
+    expect(markdown).toBe([
+      '# Demo',
+      '',
+      '*Spanish → Simplified Chinese · 6 words · 90 wpm · Level A2*',
+      '',
+      '### 0:01 · Ana ★',
+      '',
+      '> Hola, ¿qué tal?',
+      '',
+      '- **Translation:** 你好，怎么样？',
+      '- **Native rewrite:** ¿Qué onda?',
+      '- **Why:** Casual Mexican greeting.',
+    ].join('\n') + '\n');
+  });
+
+  it('writes the complete transcript as JSON, filtered only by favorites', () => {
+    const json = JSON.parse(exportTranscript(transcription, 'json', { layers: ['original'], favoritesOnly: false }, 'Demo'));
+    expect(json).toEqual(transcription);
+    const favorites = JSON.parse(exportTranscript(transcription, 'json', { layers: [], favoritesOnly: true }, 'Demo'));
+    expect(favorites.segments).toEqual([transcription.segments[0]]);
+  });
+});
+
+describe('exportFileName', () => {
+  it("replaces the source file's extension", () => {
+    expect(exportFileName('podcast.episode.mp3', 'srt')).toBe('podcast.episode.srt');
+    expect(exportFileName('notes', 'markdown')).toBe('notes.md');
+    expect(exportFileName('.mp3', 'json')).toBe('transcript.json');
+  });
+});
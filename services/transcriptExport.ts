@@ -0,0 +1,175 @@
+import { TranscriptionResponse, TranscriptionSegment } from '../types';
+import { SubtitleFormat } from './subtitles';
+import { getSpeakerName } from './speakers';
+import { getLanguageName, getSourceLanguage } from './languages';
+
+export type ExportFormat = SubtitleFormat | 'markdown' | 'json';
+
+// Per-segment text that can go into an export
+export type ExportLayer = 'original' | 'translation' | 'idiomatic' | 'explanation';
+
+export interface ExportOptions {
+  layers: ExportLayer[];
+  favoritesOnly: boolean;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; description: string; extension: string; mimeType: string }> = {
+  srt: { label: 'SRT', description: 'Subtitles for video players', extension: 'srt', mimeType: 'application/x-subrip' },
+  vtt: { label: 'WebVTT', description: 'Subtitles for the web, with speakers', extension: 'vtt', mimeType: 'text/vtt' },
+  lrc: { label: 'LRC', description: 'Synced lyrics for music players', extension: 'lrc', mimeType: 'text/plain' },
+  markdown: { label: 'Markdown', description: 'Study sheet', extension: 'md', mimeType: 'text/markdown' },
+  json: { label: 'JSON', description: 'Complete transcript data, for backups', extension: 'json', mimeType: 'application/json' },
+};
+
+export const EXPORT_LAYER_LABELS: Record<ExportLayer, string> = {
+  original: 'Original',
+  translation: 'Translation',
+  idiomatic: 'Native rewrite',
+  explanation: 'Explanation',
+};
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  layers: ['original', 'translation'],
+  favoritesOnly: false,
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * "01:02:03,456" (SRT) or "01:02:03.456" (VTT).
+ */
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  return `${pad(Math.floor(ms / 3_600_000))}:${pad(Math.floor(ms / 60_000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+// "[01:02.34]"; LRC minutes may exceed 59
+const formatLrcTime = (seconds: number) => {
+  const cs = Math.max(0, Math.round(seconds * 100));
+  return `[${pad(Math.floor(cs / 6000))}:${pad(Math.floor(cs / 100) % 60)}.${pad(cs % 100)}]`;
+};
+
+// "1:02:03" / "2:03" for headings
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(s / 3600);
+  return hours > 0 ? `${hours}:${pad(Math.floor(s / 60) % 60)}:${pad(s % 60)}` : `${Math.floor(s / 60)}:${pad(s % 60)}`;
+};
+
+const layerText = (segment: TranscriptionSegment, layer: ExportLayer): string => {
+  switch (layer) {
+    case 'original': return segment.text;
+    case 'translation': return segment.translation;
+    case 'idiomatic': return segment.idiomatic;
+    case 'explanation': return segment.idiomExplanation || '';
+  }
+};
+
+// Selected layers in a fixed order, skipping empty ones (e.g. untranslated segments)
+const segmentLines = (segment: TranscriptionSegment, layers: ExportLayer[]): string[] =>
+  (Object.keys(EXPORT_LAYER_LABELS) as ExportLayer[])
+    .filter(layer => layers.includes(layer))
+    .map(layer => layerText(segment, layer)?.replace(/\s*\n\s*/g, ' ').trim())
+    .filter((line): line is string => !!line);
+
+const toSrt = (segments: TranscriptionSegment[], options: ExportOptions) =>
+  segments
+    .map(segment => ({ segment, lines: segmentLines(segment, options.layers) }))
+    .filter(({ lines }) => lines.length > 0)
+    .map(({ segment, lines }, i) => `${i + 1}\n${formatCueTime(segment.start, ',')} --> ${formatCueTime(segment.end, ',')}\n${lines.join('\n')}\n`)
+    .join('\n');
+
+// Cue text can't contain "-->" or unescaped markup
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/-->/g, '--&gt;');
+
+const toVtt = (transcription: TranscriptionResponse, segments: TranscriptionSegment[], options: ExportOptions) => {
+  const cues = segments
+    .map(segment => ({ segment, lines: segmentLines(segment, options.layers).map(escapeVtt) }))
+    .filter(({ lines }) => lines.length > 0)
+    .map(({ segment, lines }) => {
+      // Voice tags keep the speakers, and our importer reads them back
+      const voice = segment.speaker ? `<v ${getSpeakerName(segment.speaker, transcription.speakerNames)}>` : '';
+      return `${formatCueTime(segment.start, '.')} --> ${formatCueTime(segment.end, '.')}\n${voice}${lines.join('\n')}\n`;
+    });
+  return [`WEBVTT\nLanguage: ${transcription.language}\n`, ...cues].join('\n');
+};
+
+const toLrc = (transcription: TranscriptionResponse, segments: TranscriptionSegment[], options: ExportOptions, title: string) => {
+  const header = [`[ti:${title}]`, `[la:${transcription.language}]`, '[re:LinguaSync]'];
+  const lines: string[] = [];
+  segments.forEach((segment, i) => {
+    const text = segmentLines(segment, options.layers);
+    if (text.length === 0) return;
+    // Players show one line per timestamp, so layers share it
+    lines.push(`${formatLrcTime(segment.start)}${text.join(' / ')}`);
+    // An empty line clears the display during gaps
+    const next = segments[i + 1];
+    if (!next || next.start - segment.end > 1) lines.push(formatLrcTime(segment.end));
+  });
+  return [...header, ...lines].join('\n') + '\n';
+};
+
+const toMarkdown = (transcription: TranscriptionResponse, segments: TranscriptionSegment[], options: ExportOptions, title: string) => {
+  const { meta } = transcription;
+  const source = getSourceLanguage(transcription.language).name;
+  const native = transcription.nativeLanguage ? getLanguageName(transcription.nativeLanguage) : null;
+  const out: string[] = [
+    `# ${title}`,
+    '',
+    `*${source}${native ? ` → ${native}` : ''} · ${meta.wordCount} words · ${meta.speed} · Level ${meta.estimatedLevel}*`,
+    '',
+  ];
+
+  for (const segment of segments) {
+    const speaker = segment.speaker ? ` · ${getSpeakerName(segment.speaker, transcription.speakerNames)}` : '';
+    const lines: string[] = [];
+    if (options.layers.includes('original') && segment.text) lines.push(`> ${segment.text}`, '');
+    if (options.layers.includes('translation') && segment.translation) lines.push(`- **Translation:** ${segment.translation}`);
+    if (options.layers.includes('idiomatic') && segment.idiomatic) lines.push(`- **Native rewrite:** ${segment.idiomatic}`);
+    if (options.layers.includes('explanation') && segment.idiomExplanation) lines.push(`- **Why:** ${segment.idiomExplanation}`);
+    if (lines.length === 0) continue;
+    out.push(`### ${formatClock(segment.start)}${speaker}${segment.isFavorite ? ' ★' : ''}`, '', ...lines, '');
+  }
+  return out.join('\n').trimEnd() + '\n';
+};
+
+/**
+ * Renders a transcript in the given format. JSON is the complete transcript (only the
+ * favorites filter applies); the other formats contain the selected layers.
+ */
+export const exportTranscript = (
+  transcription: TranscriptionResponse,
+  format: ExportFormat,
+  options: ExportOptions,
+  title: string
+): string => {
+  const segments = options.favoritesOnly ? transcription.segments.filter(s => s.isFavorite) : transcription.segments;
+  switch (format) {
+    case 'srt': return toSrt(segments, options);
+    case 'vtt': return toVtt(transcription, segments, options);
+    case 'lrc': return toLrc(transcription, segments, options, title);
+    case 'markdown': return toMarkdown(transcription, segments, options, title);
+    case 'json': return JSON.stringify({ ...transcription, segments }, null, 2);
+  }
+};
+
+/**
+ * "podcast.mp3" → "podcast.srt".
+ */
+export const exportFileName = (sourceFileName: string, format: ExportFormat) =>
+  `${sourceFileName.replace(/\.[^.]+$/, '') || 'transcript'}.${EXPORT_FORMATS[format].extension}`;
+
+/**
+ * Saves a file through the browser's download.
+ */
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,202 @@
+import { ModelPrice, UsageTotals } from '../types';
+import { AiCapability } from './providers/types';
+
+const STORAGE_KEY = 'linguasync.usage';
+// Older days are dropped so the log stays small
+const MAX_DAYS = 400;
+// Share of the monthly budget at which the usage screen starts warning
+export const BUDGET_WARNING_RATIO = 0.8;
+
+/**
+ * One billed AI request, as reported by a provider.
+ */
+export interface UsageEvent {
+  capability: AiCapability;
+  provider: string;
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  audioSeconds?: number;
+  signal?: AbortSignal; // The request's, so background work can be told apart (see setSignalUsageEntry)
+}
+
+// Totals by model name
+export type ModelUsage = Record<string, UsageTotals>;
+
+export interface UsageLog {
+  days: Record<string, Partial<Record<AiCapability, ModelUsage>>>; // By local date, YYYY-MM-DD
+  entries: Record<string, ModelUsage>; // By history entry id
+}
+
+/**
+ * Rough list prices in USD; users can override them in the usage screen.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.0-flash': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  'gemini-2.5-flash-preview-tts': { inputPerMillion: 0.5, outputPerMillion: 10 },
+  'gemini-2.5-pro-preview-tts': { inputPerMillion: 1, outputPerMillion: 20 },
+  'deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.1 },
+  'whisper-1': { inputPerMillion: 0, outputPerMillion: 0, audioPerMinute: 0.006 },
+};
+
+export const EMPTY_TOTALS: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0 };
+
+// Usage outside any history entry (e.g. on the upload screen) is only counted per day
+let activeEntryKey: string | null = null;
+// Background work (e.g. the import queue) runs alongside the open session, so it's filed by abort signal
+const signalEntryKeys = new WeakMap<AbortSignal, string>();
+const listeners = new Set<() => void>();
+
+export const toDateKey = (date: Date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const addTotals = (a: UsageTotals, b: Partial<UsageTotals>): UsageTotals => ({
+  requests: a.requests + (b.requests || 0),
+  inputTokens: a.inputTokens + (b.inputTokens || 0),
+  outputTokens: a.outputTokens + (b.outputTokens || 0),
+  audioSeconds: a.audioSeconds + (b.audioSeconds || 0),
+});
+
+export const loadUsageLog = (): UsageLog => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { days: {}, entries: {}, ...JSON.parse(stored) } : { days: {}, entries: {} };
+  } catch (e) {
+    console.warn("Failed to read the usage log", e);
+    return { days: {}, entries: {} };
+  }
+};
+
+const saveUsageLog = (log: UsageLog) => {
+  const days = Object.keys(log.days).sort();
+  for (const day of days.slice(0, Math.max(0, days.length - MAX_DAYS))) delete log.days[day];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn("Failed to save the usage log", e);
+  }
+  listeners.forEach(listener => listener());
+};
+
+const addToModelUsage = (usage: ModelUsage, model: string, totals: Partial<UsageTotals>) => {
+  usage[model] = addTotals(usage[model] || EMPTY_TOTALS, totals);
+};
+
+/**
+ * Adds one request to today's totals and to its history entry (the active one, unless
+ * its signal belongs to background work).
+ */
+export const recordUsage = (event: UsageEvent) => {
+  const totals = {
+    requests: 1,
+    inputTokens: event.inputTokens || 0,
+    outputTokens: event.outputTokens || 0,
+    audioSeconds: event.audioSeconds || 0,
+  };
+  const log = loadUsageLog();
+  const day = (log.days[toDateKey()] ||= {});
+  addToModelUsage((day[event.capability] ||= {}), event.model, totals);
+  const entryKey = (event.signal && signalEntryKeys.get(event.signal)) || activeEntryKey;
+  if (entryKey) addToModelUsage((log.entries[entryKey] ||= {}), event.model, totals);
+  saveUsageLog(log);
+};
+
+/**
+ * Attributes following requests to a history entry (or a temporary key while the
+ * entry doesn't exist yet, see moveEntryUsage). `null` stops attributing.
+ */
+export const setUsageEntry = (key: string | null) => {
+  activeEntryKey = key;
+};
+
+/**
+ * Attributes requests made with `signal` to `key`, whatever the active entry is.
+ */
+export const setSignalUsageEntry = (signal: AbortSignal, key: string) => {
+  signalEntryKeys.set(signal, key);
+};
+
+/**
+ * Re-files usage recorded under a temporary key (e.g. during transcription) to the saved entry.
+ */
+export const moveEntryUsage = (fromKey: string, toEntryId: string) => {
+  const log = loadUsageLog();
+  const usage = log.entries[fromKey];
+  if (!usage) return;
+  const target = (log.entries[toEntryId] ||= {});
+  Object.entries(usage).forEach(([model, totals]) => addToModelUsage(target, model, totals));
+  delete log.entries[fromKey];
+  saveUsageLog(log);
+};
+
+export const forgetEntryUsage = (key: string) => {
+  const log = loadUsageLog();
+  if (!log.entries[key]) return;
+  delete log.entries[key];
+  saveUsageLog(log);
+};
+
+export const clearUsageLog = () => saveUsageLog({ days: {}, entries: {} });
+
+/**
+ * Calls `listener` after every change to the log. Returns an unsubscribe function.
+ */
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getModelPrices = (overrides: Record<string, ModelPrice> = {}): Record<string, ModelPrice> =>
+  ({ ...DEFAULT_MODEL_PRICES, ...overrides });
+
+/**
+ * Estimated cost in USD. Models without a known price count as free.
+ */
+export const estimateCost = (usage: ModelUsage, prices: Record<string, ModelPrice>): number =>
+  Object.entries(usage).reduce((sum, [model, totals]) => {
+    const price = prices[model];
+    if (!price) return sum;
+    return sum
+      + (totals.inputTokens / 1_000_000) * price.inputPerMillion
+      + (totals.outputTokens / 1_000_000) * price.outputPerMillion
+      + (totals.audioSeconds / 60) * (price.audioPerMinute || 0);
+  }, 0);
+
+/**
+ * Merges per-capability totals of the given days into totals by model.
+ */
+export const usageByModel = (log: UsageLog, dayKeys: string[], capability?: AiCapability): ModelUsage => {
+  const result: ModelUsage = {};
+  for (const key of dayKeys) {
+    const day = log.days[key] || {};
+    for (const [cap, usage] of Object.entries(day) as [AiCapability, ModelUsage][]) {
+      if (capability && cap !== capability) continue;
+      Object.entries(usage).forEach(([model, totals]) => addToModelUsage(result, model, totals));
+    }
+  }
+  return result;
+};
+
+export const sumTotals = (usage: ModelUsage): UsageTotals =>
+  Object.values(usage).reduce((sum, totals) => addTotals(sum, totals), EMPTY_TOTALS);
+
+/**
+ * Day keys of the current month that have usage.
+ */
+export const currentMonthDays = (log: UsageLog, now: Date = new Date()): string[] => {
+  const prefix = toDateKey(now).slice(0, 7);
+  return Object.keys(log.days).filter(day => day.startsWith(prefix));
+};
+
+/**
+ * Estimated spend this month and how it compares with the soft budget.
+ */
+export const getBudgetStatus = (budget: number, priceOverrides: Record<string, ModelPrice> = {}) => {
+  const log = loadUsageLog();
+  const spent = estimateCost(usageByModel(log, currentMonthDays(log)), getModelPrices(priceOverrides));
+  const ratio = budget > 0 ? spent / budget : 0;
+  return { spent, ratio, isNear: budget > 0 && ratio >= BUDGET_WARNING_RATIO, isOver: budget > 0 && ratio >= 1 };
+};
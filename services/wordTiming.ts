@@ -0,0 +1,53 @@
+import { TranscriptionSegment, WordTiming } from '../types';
+import { isUnspacedLanguage } from './languages';
+import { tokenize, cleanWord } from './tokenize';
+
+/**
+ * Rough syllable count: vowel groups, minus a silent trailing "e". Always at least 1.
+ * For scripts without spaces every character counts (roughly a syllable / mora).
+ */
+const countSyllables = (word: string, language?: string): number => {
+  if (isUnspacedLanguage(language)) return Math.max(1, cleanWord(word).length);
+  const letters = word.toLowerCase().normalize('NFD').replace(/[^a-z]/g, '');
+  if (!letters) return 1;
+  const groups = letters.replace(/e$/, '').match(/[aeiouy]+/g);
+  return Math.max(1, groups ? groups.length : 1);
+};
+
+/**
+ * Estimates word timings by spreading the segment's duration over its words,
+ * weighted by syllable count.
+ */
+export const estimateWordTimings = (
+  segment: Pick<TranscriptionSegment, 'start' | 'end' | 'text'>,
+  language?: string
+): WordTiming[] => {
+  const tokens = tokenize(segment.text, language);
+  if (tokens.length === 0) return [];
+
+  const weights = tokens.map(token => countSyllables(token, language));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const duration = Math.max(0, segment.end - segment.start);
+
+  let cursor = segment.start;
+  return tokens.map((text, i) => {
+    const start = cursor;
+    cursor = i === tokens.length - 1 ? segment.end : cursor + (duration * weights[i]) / total;
+    return { text, start, end: cursor };
+  });
+};
+
+/**
+ * Keeps usable model timings, otherwise falls back to an estimate.
+ */
+export const ensureWordTimings = (segment: TranscriptionSegment, language?: string): TranscriptionSegment => {
+  const valid = segment.words?.length &&
+    segment.words.every(w => w.text && Number.isFinite(w.start) && Number.isFinite(w.end) && w.end >= w.start);
+  return valid ? segment : { ...segment, words: estimateWordTimings(segment, language) };
+};
+
+/**
+ * Moves word timings along with their segment (e.g. chunk offsets).
+ */
+export const shiftWordTimings = (words: WordTiming[] | undefined, offset: number): WordTiming[] | undefined =>
+  words?.map(w => ({ ...w, start: w.start + offset, end: w.end + offset }));
@@ -1,22 +1,103 @@
 
+export interface WordTiming {
+  text: string;
+  start: number;
+  end: number;
+}
+
 export interface TranscriptionSegment {
   start: number;
   end: number;
   text: string;
-  translation: string; // Chinese translation
+  words?: WordTiming[]; // Word-level timing (from the model, or estimated)
+  speaker?: string; // Diarization label, e.g. 'S1' (display names live in speakerNames)
+  translation: string; // Translation into the learner's native language
   idiomatic: string;   // American idiomatic expression
   idiomExplanation?: string; // Reason/Nuance for the idiom
+  enrichmentFailed?: boolean; // Translation/rewrite could not be generated; can be retried
   isFavorite?: boolean; // New field for Favorites feature
 }
 
 export interface TranscriptionResponse {
-  language: string;
+  language: string; // Spoken (source) language, BCP-47
+
   segments: TranscriptionSegment[];
   meta: {
     wordCount: number;
     estimatedLevel: string; // e.g., 'B2', 'C1'
     speed: string; // e.g., '140 wpm'
-  }
+  };
+  warnings?: string[]; // Problems fixed while validating the AI response
+  nativeLanguage?: string; // Language of translations/explanations (missing on old entries = 'zh-CN')
+  speakerNames?: Record<string, string>; // User-chosen names by speaker label
+  lookedUpWords?: LookedUpWord[]; // Words the learner looked up, newest first (for Anki export)
+}
+
+export type ProcessingStage = 'reading' | 'encoding' | 'uploading' | 'transcribing' | 'enriching' | 'postprocessing';
+
+export interface ProcessingProgress {
+  stage: ProcessingStage;
+  progress: number; // 0-1, overall
+  message: string;
+  chunkIndex?: number; // 0-based, only while transcribing chunks
+  chunkCount?: number;
+}
+
+export interface LanguageSettings {
+  nativeLanguage: string; // Learner's language, e.g. 'zh-CN', 'es', 'ja'
+  sourceLanguage: string; // Language being learned (spoken in the audio), or 'auto' to detect
+}
+
+/**
+ * Estimated price of a model, in USD. Token prices are per million tokens.
+ */
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  audioPerMinute?: number; // Services billed by audio length (e.g. Whisper)
+}
+
+export type TranscriptionProvider = 'gemini' | 'whisper';
+
+export interface AppSettings extends LanguageSettings {
+  monthlyBudget: number; // Soft limit in USD for the usage screen; 0 = none
+  modelPrices: Record<string, ModelPrice>; // Overrides of the built-in price estimates, by model
+  transcriptionModel: string; // Gemini model for transcription and pronunciation scoring
+  ttsModel: string; // Gemini text-to-speech model
+  textModel: string; // Gemini model for definitions, translations and rewrites
+  transcriptionProvider?: TranscriptionProvider; // Unset: the build's AI_PROVIDERS choice
+  apiMode: ApiMode;
+  proxyUrl: string; // Base URL of the proxy functions, e.g. "/api"
+}
+
+// 'direct': the browser calls the providers with the user's keys; 'proxy': our backend holds the keys;
+// 'mock': offline demo answers, no requests at all
+export type ApiMode = 'direct' | 'proxy' | 'mock';
+
+/**
+ * The user's own API keys, entered in Settings and kept in this browser only.
+ */
+export interface ApiCredentials {
+  geminiApiKey: string;
+  deepSeekApiKey: string;
+  whisperApiUrl: string; // Overrides WHISPER_API_URL from the build
+  whisperApiKey: string;
+  proxyAccessToken: string; // Sent to the proxy when it requires one (PROXY_ACCESS_TOKEN)
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  audioSeconds: number;
+}
+
+export interface TranscribeOptions {
+  nativeLanguage?: string; // Defaults to the saved setting
+  sourceLanguage?: string; // Defaults to the saved setting
+  onProgress?: (progress: ProcessingProgress) => void;
+  onPartialSegments?: (segments: TranscriptionSegment[]) => void; // Finished segments so far
+  signal?: AbortSignal; // Aborting rejects with a CancelledError
 }
 
 export enum AppState {
@@ -33,6 +114,7 @@ export interface AudioFileMetadata {
   type: string;
   url: string;
   originalFile: File;
+  isVideo?: boolean; // Shown in the video panel; only the audio track is transcribed
 }
 
 export interface WordDefinition {
@@ -40,6 +122,23 @@ export interface WordDefinition {
   definition: string;
   example: string;
   phonetic?: string;
+  translation?: string; // In the learner's native language
+}
+
+export interface LookedUpWord extends WordDefinition {
+  context: string; // Sentence the word was clicked in
+  start: number; // Of that sentence, for cutting its audio
+  end: number;
+  date: number;
+}
+
+export type RewriteRegister = 'casual' | 'professional' | 'concise';
+
+export interface RewriteAlternative {
+  register: RewriteRegister;
+  idiomatic: string;
+  idiomExplanation: string;
+  translation: string; // In the learner's native language
 }
 
 export interface PronunciationScore {
@@ -52,6 +151,9 @@ export interface HistoryEntry {
   id: string; // Timestamp string
   fileName: string;
   date: number;
-  audioBlob: Blob;
+  audioBlob: Blob; // The imported file (the whole video for video imports)
+  isVideo?: boolean;
   transcription: TranscriptionResponse;
+  contentHash?: string; // SHA-256 of the audio
+  cacheKey?: string; // contentHash + prompt version + languages (see buildCacheKey)
 }
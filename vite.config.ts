@@ -9,9 +9,15 @@ export default defineConfig(({ mode }) => {
     base: '/', 
     plugins: [react()],
     define: {
-      // Safely define env vars individually instead of overwriting the entire process.env object
-      'process.env.API_KEY': JSON.stringify(env.API_KEY || ''),
-      'process.env.DEEPSEEK_API_KEY': JSON.stringify(env.DEEPSEEK_API_KEY || ''),
+      // Safely define env vars individually instead of overwriting the entire process.env object.
+      // Never add API keys here: everything defined ends up in the public bundle (keys go in Settings).
+      // Per-capability provider order, e.g. "definition=deepseek,gemini;enrichment=deepseek"
+      'process.env.AI_PROVIDERS': JSON.stringify(env.AI_PROVIDERS || ''),
+      'process.env.WHISPER_API_URL': JSON.stringify(env.WHISPER_API_URL || ''),
+      'process.env.WHISPER_MODEL': JSON.stringify(env.WHISPER_MODEL || ''),
+      // "proxy" to use the Pages Functions in functions/api by default (keys stay on the server), "mock" for the offline demo
+      'process.env.API_MODE': JSON.stringify(env.API_MODE || ''),
+      'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL || ''),
       'process.env.NODE_ENV': JSON.stringify(mode),
     },
     build: {